@@ -1,5 +1,6 @@
 import { useSyncExternalStore } from 'react'
-import { getSnapshot, updateSnapshot, useCompute } from './impl'
+import { activeStoreContainer, type Container, containerOf, type StoreContainer } from './container'
+import { useStoreContainer } from './provider'
 
 export { type Atom, createAtom }
 
@@ -33,6 +34,10 @@ type AtomSetStateParam<T> = Parameters<AtomSetState<T>>[0]
  *
  * @param id - The id of the atom
  * @param defaultValue - The default value of the atom
+ * @param persistent - Whether the atom is persisted and synchronized across tabs (default: false);
+ * persistent atoms render their default value on the server and while hydrating
+ * @param storeContainer - Container holding the atom (default: the one of the closest
+ * `StoreProvider` or of `runWithStoreContainer`, else the global container)
  * @returns The atom
  * @example
  * const stateA = createAtom(useId(), false)
@@ -50,16 +55,43 @@ type AtomSetStateParam<T> = Parameters<AtomSetState<T>>[0]
  *   </>
  * )
  */
-function createAtom<T>(id: string, defaultValue: T, persistent = false): Atom<T> {
+function createAtom<T>(
+  id: string,
+  defaultValue: T,
+  persistent = false,
+  storeContainer?: StoreContainer
+): Atom<T> {
   const key = `atom:${id}`
   const memoryOnly = !persistent
+  const initialized = new WeakSet<Container>()
+  const containerFor = (storeContainer?: StoreContainer) => {
+    const container = containerOf(storeContainer)
+    if (initialized.has(container)) return container
+    initialized.add(container)
+    container.registerNamespace(key, defaultValue, memoryOnly, persistent)
+    if (persistent) {
+      // persistent atoms are kept in sync across tabs like persistent stores
+      container.syncNamespace(key, memoryOnly)
+    }
 
-  // set the default value
-  // so getAtom will never return undefined
-  if (getAtom(key, memoryOnly) === undefined) {
-    setAtom(key, defaultValue, memoryOnly)
+    // set the server value or the default value
+    // so getAtom will never return undefined
+    const serverValue = container.getServerValue(key)
+    if (serverValue !== undefined) {
+      container.produce(key, serverValue, true, true)
+    } else if (getAtom(container, key, memoryOnly) === undefined) {
+      setAtom(container, key, defaultValue, memoryOnly)
+    }
+    return container
   }
 
+  const container = containerFor(storeContainer)
+  // without a container, the atom is read from the scoped one (see `createStoreRoot`)
+  const currentContainer = storeContainer
+    ? () => container
+    : () => containerFor(activeStoreContainer())
+  const useContainer = storeContainer ? () => container : () => containerFor(useStoreContainer())
+
   const atomProxy = new Proxy({} as Record<string, unknown>, {
     get(target, prop) {
       const cacheKey = `_${String(prop)}`
@@ -68,24 +100,24 @@ function createAtom<T>(id: string, defaultValue: T, persistent = false): Atom<T>
         return target[cacheKey]
       }
       if (prop === 'value') {
-        return getAtom(key, memoryOnly)
+        return getAtom(currentContainer(), key, memoryOnly)
       }
       if (prop === 'use') {
-        return (target._use ??= () => useAtom(key, memoryOnly))
+        return (target._use ??= () => useAtom(useContainer(), key, memoryOnly))
       }
       if (prop === 'set') {
-        return (target._set ??= (value: T) => setAtom(key, value, memoryOnly))
+        return (target._set ??= (value: T) => setAtom(currentContainer(), key, value, memoryOnly))
       }
       if (prop === 'reset') {
-        return (target._reset ??= () => setAtom(key, defaultValue, memoryOnly))
+        return (target._reset ??= () => setAtom(currentContainer(), key, defaultValue, memoryOnly))
       }
       if (prop === 'subscribe') {
         return (target._subscribe ??= (listener: (value: T) => void) =>
-          subscribeAtom(key, memoryOnly, listener))
+          subscribeAtom(currentContainer(), key, memoryOnly, listener))
       }
       if (prop === 'useCompute') {
         return (target._useCompute ??= (fn: (value: T) => unknown, deps?: readonly unknown[]) =>
-          useCompute(key, undefined, fn, deps, memoryOnly))
+          useContainer().useCompute(key, undefined, fn, deps, memoryOnly))
       }
       return undefined
     }
@@ -99,15 +131,16 @@ function createAtom<T>(id: string, defaultValue: T, persistent = false): Atom<T>
  * Uses useSyncExternalStore for tear-free reads and automatic re-rendering
  * when the subscribed value changes.
  *
+ * @param container - The container holding the atom
  * @param key - The namespace
  * @param memoryOnly - When true, skips localStorage persistence
  * @returns The current value at the namespace, or the default value if not set
  */
-function useAtom<T>(key: string, memoryOnly = true) {
+function useAtom<T>(container: Container, key: string, memoryOnly = true) {
   const value = useSyncExternalStore(
-    listener => subscribeAtom(key, memoryOnly, listener),
-    () => getSnapshot(key, memoryOnly),
-    () => getSnapshot(key, memoryOnly)
+    listener => subscribeAtom(container, key, memoryOnly, listener),
+    () => container.getSnapshot(key, memoryOnly),
+    () => container.getServerSnapshot(key, memoryOnly)
   )
   return value as T
 }
@@ -115,46 +148,56 @@ function useAtom<T>(key: string, memoryOnly = true) {
 /**
  * Gets a value from an atom.
  *
+ * @param container - The container holding the atom
  * @param key - The namespace
  * @returns The value, or the default value if not set
  */
-function getAtom<T>(key: string, memoryOnly = true): T {
-  return getSnapshot(key, memoryOnly) as T
+function getAtom<T>(container: Container, key: string, memoryOnly = true): T {
+  return container.getSnapshot(key, memoryOnly) as T
 }
 
 /**
  * Sets a value at a specific path within a namespace.
  *
+ * @param container - The container holding the atom
  * @param key - The namespace
  * @param value - The value to set
  * @param memoryOnly - When true, skips localStorage persistence
  */
-function setAtom<T>(key: string, value: AtomSetStateParam<T>, memoryOnly = true) {
-  if (typeof value !== 'function') {
-    updateSnapshot(key, value, memoryOnly)
-  } else {
-    updateSnapshot(key, (value as (prev: T) => T)(getAtom<T>(key, memoryOnly)), memoryOnly)
-  }
-  notifyAtom(key)
+function setAtom<T>(
+  container: Container,
+  key: string,
+  value: AtomSetStateParam<T>,
+  memoryOnly = true
+) {
+  const previous = getAtom<T>(container, key, memoryOnly)
+  const next = typeof value === 'function' ? (value as (prev: T) => T)(previous) : (value as T)
+  container.updateSnapshot(key, next, memoryOnly)
+  container.notifyNamespace(key, previous, next)
 }
 
-const listeners = new Map<string, Set<() => void>>()
-
 /**
  * Subscribes to changes for an atom.
  *
+ * @param container - The container holding the atom
  * @param key - The full key path to subscribe to
  * @param listener - Callback invoked when the value changes
  * @returns An unsubscribe function to remove the listener
  */
-function subscribeAtom<T>(key: string, memoryOnly: boolean, listener: (value: T) => void) {
+function subscribeAtom<T>(
+  container: Container,
+  key: string,
+  memoryOnly: boolean,
+  listener: (value: T) => void
+) {
+  const listeners = container.atomListeners
   let listenerSet = listeners.get(key)
   if (!listenerSet) {
     listenerSet = new Set()
     listeners.set(key, listenerSet)
   }
 
-  const atomListener = () => listener(getAtom(key, memoryOnly))
+  const atomListener = () => listener(getAtom(container, key, memoryOnly))
   listenerSet.add(atomListener)
 
   return () => {
@@ -167,16 +210,3 @@ function subscribeAtom<T>(key: string, memoryOnly: boolean, listener: (value: T)
     }
   }
 }
-
-/**
- * Notifies all listeners for an atom.
- *
- * @param namespace - The namespace
- */
-function notifyAtom(namespace: string) {
-  const listenerSet = listeners.get(namespace)
-  if (!listenerSet) return
-  for (const listener of listenerSet) {
-    listener()
-  }
-}
@@ -0,0 +1,93 @@
+export {
+  compareClocks,
+  createTabId,
+  type LogicalClock,
+  type MergeConflict,
+  type MergeStrategy,
+  newestOverlapping,
+  recordClock
+}
+
+/**
+ * A Lamport timestamp of a change. Ties between tabs are broken by tab id, so every
+ * tab orders any two changes the same way.
+ */
+type LogicalClock = {
+  time: number
+  tab: string
+}
+
+/** A change from another tab that is older than a local change of an overlapping path. */
+type MergeConflict = {
+  /** Path of the remote change ('' for the whole namespace) */
+  path: string
+  /** Local value at path */
+  local: unknown
+  /** Remote value at path, undefined when it was deleted */
+  remote: unknown
+  /** Clock of the newest local change overlapping path */
+  localClock: LogicalClock
+  /** Clock of the remote change */
+  remoteClock: LogicalClock
+}
+
+/**
+ * Decides the outcome of concurrent changes made by different tabs.
+ *
+ * - `lww`: last writer wins, by namespace; changes older than the namespace's last change are ignored
+ * - `paths`: last writer wins, by path; changes to other paths are merged
+ * - a function: called with each conflicting change (as for `paths`), returns the value to keep at its path
+ */
+type MergeStrategy = 'lww' | 'paths' | ((conflict: MergeConflict) => unknown)
+
+/** Orders two clocks: negative when `a` happened before `b`. */
+function compareClocks(a: LogicalClock, b: LogicalClock): number {
+  if (a.time !== b.time) return a.time - b.time
+  if (a.tab === b.tab) return 0
+  return a.tab < b.tab ? -1 : 1
+}
+
+/** A random identifier of this tab. */
+function createTabId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID()
+  return Math.random().toString(36).slice(2)
+}
+
+function overlaps(a: string, b: string): boolean {
+  return a === b || a === '' || b === '' || a.startsWith(`${b}.`) || b.startsWith(`${a}.`)
+}
+
+/**
+ * The newest clock recorded for a path, its ancestors or its descendants.
+ *
+ * @param clocks - Clocks of the last changes by path
+ * @param path - The changed path
+ */
+function newestOverlapping(
+  clocks: ReadonlyMap<string, LogicalClock>,
+  path: string
+): LogicalClock | undefined {
+  let newest: LogicalClock | undefined
+  for (const [recorded, clock] of clocks) {
+    if (overlaps(recorded, path) && (!newest || compareClocks(clock, newest) > 0)) {
+      newest = clock
+    }
+  }
+  return newest
+}
+
+/**
+ * Records the clock of a change to a path, superseding the clocks of its descendants.
+ *
+ * @param clocks - Clocks of the last changes by path, updated in place
+ * @param path - The changed path
+ * @param clock - Clock of the change
+ */
+function recordClock(clocks: Map<string, LogicalClock>, path: string, clock: LogicalClock) {
+  for (const recorded of [...clocks.keys()]) {
+    if (path === '' || recorded.startsWith(`${path}.`)) {
+      clocks.delete(recorded)
+    }
+  }
+  clocks.set(path, clock)
+}
@@ -0,0 +1,187 @@
+export {
+  type CompressionCodec,
+  type CompressionStats,
+  compressPayload,
+  decompressPayload,
+  lzUTF16Codec
+}
+
+/**
+ * Compresses serialized payloads before they are written to storage.
+ *
+ * `id` is stored with every compressed payload so that it can be decompressed
+ * later, even when the namespace no longer uses compression.
+ */
+type CompressionCodec = {
+  id: string
+  compress: (text: string) => string
+  decompress: (text: string) => string
+}
+
+/** Sizes of the last payload written to or read from storage, in UTF-16 code units. */
+type CompressionStats = {
+  /** Size of the serialized payload */
+  rawSize: number
+  /** Size of the payload as stored */
+  storedSize: number
+  /** Whether the stored payload is compressed */
+  compressed: boolean
+}
+
+// never the first character of a JSON document, so compressed payloads are unambiguous
+const MARKER = '\u0001'
+
+/** Bits stored per output character; offset so the output has no control characters or surrogates. */
+const CHAR_BITS = 15
+const CHAR_OFFSET = 32
+
+const LITERAL_CODE = 0
+const END_CODE = 1
+const FIRST_CODE = 2
+
+/**
+ * LZW compression packed into valid UTF-16 strings, suited to localStorage which
+ * counts string length rather than bytes. Repetitive JSON typically shrinks 3-10x.
+ */
+const lzUTF16Codec: CompressionCodec = {
+  id: 'lz16',
+  compress: lzCompress,
+  decompress: lzDecompress
+}
+
+/**
+ * Compresses a payload, keeping it as is when compression does not make it smaller.
+ *
+ * @returns The stored payload
+ */
+function compressPayload(text: string, codec: CompressionCodec): string {
+  const compressed = `${MARKER}${codec.id}${MARKER}${codec.compress(text)}`
+  return compressed.length < text.length ? compressed : text
+}
+
+/**
+ * Decompresses a stored payload; uncompressed payloads are returned as is.
+ *
+ * @param text - The stored payload
+ * @param codec - The namespace's codec, looked up with the built-in codecs
+ * @returns The serialized payload and whether it was compressed
+ * @throws When the payload was compressed with an unknown codec
+ */
+function decompressPayload(
+  text: string,
+  codec?: CompressionCodec
+): { text: string; compressed: boolean } {
+  if (!text.startsWith(MARKER)) return { text, compressed: false }
+  const end = text.indexOf(MARKER, MARKER.length)
+  const id = text.slice(MARKER.length, end)
+  const decoder = [codec, lzUTF16Codec].find(c => c?.id === id)
+  if (end === -1 || !decoder) {
+    throw new Error(`Unknown compression codec "${id}"`)
+  }
+  return { text: decoder.decompress(text.slice(end + MARKER.length)), compressed: true }
+}
+
+/** Bits needed to write codes below `next`. */
+function bitsFor(next: number): number {
+  return 32 - Math.clz32(next - 1)
+}
+
+function lzCompress(input: string): string {
+  const output: string[] = []
+  let buffer = 0
+  let buffered = 0
+  const write = (value: number, bits: number) => {
+    for (let i = bits - 1; i >= 0; i--) {
+      buffer = (buffer << 1) | ((value >> i) & 1)
+      if (++buffered === CHAR_BITS) {
+        output.push(String.fromCharCode(buffer + CHAR_OFFSET))
+        buffer = 0
+        buffered = 0
+      }
+    }
+  }
+
+  const dictionary = new Map<string, number>()
+  let next = FIRST_CODE
+  const emit = (phrase: string) => {
+    const bits = bitsFor(next)
+    const code = dictionary.get(phrase)
+    if (code !== undefined) {
+      write(code, bits)
+      return
+    }
+    // first occurrence of a character
+    write(LITERAL_CODE, bits)
+    write(phrase.charCodeAt(0), 16)
+    dictionary.set(phrase, next++)
+  }
+
+  let phrase = ''
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charAt(i)
+    const extended = phrase + c
+    if (phrase === '' || dictionary.has(extended)) {
+      phrase = extended
+      continue
+    }
+    emit(phrase)
+    dictionary.set(extended, next++)
+    phrase = c
+  }
+  if (phrase !== '') {
+    emit(phrase)
+    // the decoder reserves a code for the phrase following the last one
+    next++
+  }
+  write(END_CODE, bitsFor(next))
+
+  if (buffered > 0) {
+    output.push(String.fromCharCode((buffer << (CHAR_BITS - buffered)) + CHAR_OFFSET))
+  }
+  return output.join('')
+}
+
+function lzDecompress(input: string): string {
+  let position = 0
+  let buffer = 0
+  let buffered = 0
+  const read = (bits: number) => {
+    let value = 0
+    for (let i = 0; i < bits; i++) {
+      if (buffered === 0) {
+        if (position >= input.length) throw new Error('Truncated compressed payload')
+        buffer = input.charCodeAt(position++) - CHAR_OFFSET
+        buffered = CHAR_BITS
+      }
+      value = (value << 1) | ((buffer >> --buffered) & 1)
+    }
+    return value
+  }
+
+  // codes below FIRST_CODE are reserved
+  const dictionary: string[] = new Array(FIRST_CODE).fill('')
+  const output: string[] = []
+  let previous: string | undefined
+  for (;;) {
+    // the entry for `previous` + next first character is added once it is known
+    const next = dictionary.length + (previous === undefined ? 0 : 1)
+    const code = read(bitsFor(next))
+    if (code === END_CODE) break
+
+    let phrase: string
+    if (code === LITERAL_CODE) {
+      phrase = String.fromCharCode(read(16))
+    } else if (code < dictionary.length) {
+      phrase = dictionary[code]!
+    } else if (code === dictionary.length && previous !== undefined) {
+      phrase = previous + previous.charAt(0)
+    } else {
+      throw new Error('Corrupt compressed payload')
+    }
+    if (previous !== undefined) dictionary.push(previous + phrase.charAt(0))
+    if (code === LITERAL_CODE) dictionary.push(phrase)
+    output.push(phrase)
+    previous = phrase
+  }
+  return output.join('')
+}
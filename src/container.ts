@@ -0,0 +1,1055 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import type { CompressionStats } from './compression'
+import {
+  getKeyPrefixes,
+  getNamespace,
+  getNestedValue,
+  isEqual,
+  isVirtualKey,
+  joinChildKey,
+  joinPath,
+  mergeWithDefaults,
+  setNestedValue
+} from './impl'
+import { KVStore, type NamespaceOptions } from './kv_store'
+import { type JsonPatchOperation, type PatchListener, renamePatches, writePatches } from './patch'
+import type { FieldPath, FieldPathValue, FieldValues } from './path'
+import { getStableKeys, setExternalKeyOrder } from './stable_keys'
+import { createMemoryStorageAdapter, type StorageAdapter } from './storage'
+import {
+  ALL_NAMESPACES,
+  getDefaultTransport,
+  type SyncMessage,
+  type SyncTransport
+} from './transport'
+
+export {
+  activeStoreContainer,
+  batch,
+  clearAll,
+  type Container,
+  containerOf,
+  createStoreContainer,
+  defaultContainer,
+  getSnapshot,
+  produce,
+  receiveSyncMessage,
+  rename,
+  runWithStoreContainer,
+  type StoreContainer,
+  type StoreContainerOptions,
+  testReset
+}
+
+/**
+ * An isolated set of stores, with its own values, listeners, storage and cross-tab channel.
+ * Pass it to `createStore`, `createMemoryStore` and `createAtom`, or to `<StoreProvider>` to
+ * scope `useMemoryStore` and `useForm` to it.
+ */
+type StoreContainer = {
+  /** Make changes to the stores of the container, notifying their listeners once at the end. */
+  batch: <R>(fn: () => R) => R
+  /** Reset every store and atom of the container to its defaults and wipe its storage. */
+  clearAll: () => void
+  /** Write deferred changes of every store of the container to storage immediately. */
+  flush: () => void
+}
+
+type StoreContainerOptions = {
+  /** Storage adapter for stores without their own (default: a new in-memory storage) */
+  storage?: StorageAdapter
+  /** Carries changes to the same container in other tabs (default: none) */
+  transport?: SyncTransport
+}
+
+/** The internals of a container, used by stores and atoms. */
+type Container = ReturnType<typeof createContainer>
+
+/** The last value computed by `useCompute` and the store value it was computed from. */
+type ComputeCache<R> = { storeValue: unknown; computed: R }
+
+/**
+ * Creates an isolated store container, e.g. for tests or for independent React roots on
+ * one page. Unlike the default container, it does not use localStorage nor synchronize
+ * with other tabs unless a storage adapter and a transport are given.
+ *
+ * @param options - Container options
+ * @returns The container
+ * @example
+ * const container = createStoreContainer({
+ *   storage: createLocalStorageAdapter({ prefix: 'widget:' }),
+ *   transport: createBroadcastChannelTransport('widget')
+ * })
+ * const widgetStore = createStore('widget', { open: false }, { container })
+ *
+ * root.render(
+ *   <StoreProvider container={container}>
+ *     <Widget />
+ *   </StoreProvider>
+ * )
+ */
+function createStoreContainer({
+  storage = createMemoryStorageAdapter(),
+  transport
+}: StoreContainerOptions = {}): StoreContainer {
+  return createContainer(storage, transport)
+}
+
+/** Holds the container of the code run by `runWithStoreContainer`. */
+type ContainerScope = {
+  run: <R>(container: StoreContainer, fn: () => R) => R
+  getStore: () => StoreContainer | undefined
+}
+
+const containerScope = createContainerScope()
+
+/**
+ * Runs `fn` with a container as the one of the stores and atoms created without a container:
+ * their methods, and their hooks outside a `StoreProvider`, use it, e.g. in an event handler of
+ * a React root with its own container, or while loading the data of a request on the server and
+ * rendering it. Where `AsyncLocalStorage` is available (Node, Bun, Deno), the container stays
+ * active across `await` and in the work `fn` schedules, such as a streaming render; elsewhere,
+ * only until `fn` returns.
+ *
+ * @param container - The container, e.g. of the current request
+ * @param fn - The code to run
+ * @returns The return value of `fn`
+ * @example
+ * const container = createStoreContainer()
+ * const html = await runWithStoreContainer(container, async () => {
+ *   userStore.name.set((await getSession(request)).name)
+ *   return renderToString(<App />)
+ * })
+ */
+function runWithStoreContainer<R>(container: StoreContainer, fn: () => R): R {
+  return containerScope.run(container, fn)
+}
+
+/** The container of the current `runWithStoreContainer` call, if any. */
+function activeStoreContainer(): StoreContainer | undefined {
+  return containerScope.getStore()
+}
+
+function createContainerScope(): ContainerScope {
+  // loaded at runtime so that bundles for the browser do not depend on it
+  const asyncHooks = globalThis.process?.getBuiltinModule?.('node:async_hooks')
+  if (asyncHooks) return new asyncHooks.AsyncLocalStorage<StoreContainer>()
+  let active: StoreContainer | undefined
+  return {
+    run: (container, fn) => {
+      const previous = active
+      active = container
+      try {
+        return fn()
+      } finally {
+        active = previous
+      }
+    },
+    getStore: () => active
+  }
+}
+
+/**
+ * Creates the state of a container.
+ *
+ * @param storage - Storage adapter for namespaces without their own (default: localStorage)
+ * @param transport - Transport to other tabs, if any
+ */
+function createContainer(storage?: StorageAdapter, transport?: SyncTransport) {
+  const inMemStorage = new Map<string, unknown>()
+  const listeners = new Map<string, Set<() => void>>()
+  const descendantListenerKeysByPrefix = new Map<string, Set<string>>()
+  const virtualRevisions = new Map<string, number>()
+  /** Default values of the namespaces created by stores and atoms, restored when they are reset. */
+  const namespaceDefaults = new Map<
+    string,
+    { defaultValue: unknown; memoryOnly: boolean; hydrationSafe: boolean }
+  >()
+  const atomListeners = new Map<string, Set<() => void>>()
+  /** Values of namespaces rendered on the server, see `hydrate`. */
+  const serverValues = new Map<string, { value: unknown; version?: number }>()
+  /** Server snapshots of hydration-safe namespaces, kept so that React sees stable values. */
+  const serverSnapshots = new Map<string, unknown>()
+  /** Depth of nested `batch` calls. */
+  let batchDepth = 0
+  /** Values of the namespaces changed by the current batch as they were before it. */
+  const batchedNamespaces = new Map<string, unknown>()
+  const patchListeners = new Map<string, Set<PatchListener>>()
+  /** Patches made to each namespace by the current batch, and their inverses in reverse order. */
+  const batchedPatches = new Map<
+    string,
+    { patches: JsonPatchOperation[]; inversePatches: JsonPatchOperation[] }
+  >()
+
+  const store = new KVStore({
+    inMemStorage,
+    memoryOnly: false,
+    storage,
+    transport
+  })
+  const memoryStore = new KVStore({
+    inMemStorage,
+    memoryOnly: true,
+    transport
+  })
+
+  /** Sets the persistence options of a namespace; must be called before it is first read. */
+  function configureNamespace(namespace: string, options: NamespaceOptions, memoryOnly = false) {
+    if (memoryOnly) {
+      memoryStore.configure(namespace, options)
+    } else {
+      store.configure(namespace, options)
+    }
+  }
+
+  /**
+   * Records the default value of a namespace, restored when it is reset.
+   *
+   * @param hydrationSafe - Whether the server snapshot of the namespace is its default value,
+   * see `getServerSnapshot`
+   */
+  function registerNamespace(
+    namespace: string,
+    defaultValue: unknown,
+    memoryOnly: boolean,
+    hydrationSafe = false
+  ) {
+    namespaceDefaults.set(namespace, { defaultValue, memoryOnly, hydrationSafe })
+    serverSnapshots.delete(namespace)
+  }
+
+  /**
+   * Resets a namespace to its default value in this tab and in other tabs, removing it from
+   * storage, and notifies its listeners.
+   */
+  function resetNamespace(namespace: string) {
+    if (getNamespace(namespace) !== namespace) {
+      // a store nested in another namespace, like the errors of a form
+      const defaults = namespaceDefaults.get(namespace)
+      produce(namespace, defaults?.defaultValue, false, defaults?.memoryOnly ?? false)
+      return
+    }
+    const memoryOnly = isMemoryOnly(namespace)
+    const oldValue = inMemStorage.get(namespace)
+    if (memoryOnly) {
+      memoryStore.clear(namespace)
+    } else {
+      store.clear(namespace)
+    }
+    restoreDefaults(namespace, oldValue)
+  }
+
+  /**
+   * Resets every namespace to its default value in this tab and in other tabs, and removes
+   * every namespace from storage, including the ones this tab has not loaded (e.g. on logout).
+   */
+  function clearAll() {
+    for (const namespace of rootNamespaces()) {
+      resetNamespace(namespace)
+    }
+    store.clearStorage()
+    transport?.post({ type: 'reset', key: ALL_NAMESPACES })
+  }
+
+  /** The namespaces in memory or created by stores and atoms, without nested stores. */
+  function rootNamespaces(): Set<string> {
+    return new Set([...inMemStorage.keys(), ...namespaceDefaults.keys()].map(getNamespace))
+  }
+
+  /** Whether a namespace, or every store nested in it, is memory-only. */
+  function isMemoryOnly(namespace: string): boolean {
+    const defaults = namespaceDefaults.get(namespace)
+    if (defaults) return defaults.memoryOnly
+    let nested = false
+    for (const [key, { memoryOnly }] of namespaceDefaults) {
+      if (!key.startsWith(`${namespace}.`)) continue
+      if (!memoryOnly) return false
+      nested = true
+    }
+    return nested
+  }
+
+  /**
+   * The value of a namespace rendered on the server, if any, migrated to the version of its store
+   * when it was persisted with a version.
+   */
+  function getServerValue(namespace: string): unknown {
+    const seeded = serverValues.get(namespace)
+    if (seeded?.version === undefined) return seeded?.value
+    return store.migrate(namespace, seeded.value, seeded.version)
+  }
+
+  /**
+   * Seeds a namespace with its value rendered on the server. Stores created afterwards start
+   * with it; existing ones are merged with it, the server value taking precedence.
+   *
+   * @param version - The version the value was persisted with, e.g. in a cookie
+   */
+  function seedNamespace(namespace: string, value: unknown, version?: number) {
+    serverValues.set(namespace, { value, version })
+    serverSnapshots.delete(namespace)
+    const defaults = namespaceDefaults.get(namespace)
+    if (!defaults) return
+    const current = getSnapshot(namespace, defaults.memoryOnly)
+    const next = mergeWithDefaults(current, getServerValue(namespace))
+    updateSnapshot(namespace, next, defaults.memoryOnly)
+    emitRootPatch(namespace, current, next)
+    notifyNamespace(namespace, current, next)
+  }
+
+  /**
+   * Values of namespaces created by stores and atoms: the given ones, or the ones that
+   * differ from their default value.
+   */
+  function snapshotNamespaces(namespaces?: readonly string[]): Map<string, unknown> {
+    const snapshot = new Map<string, unknown>()
+    for (const [namespace, { defaultValue, memoryOnly }] of namespaceDefaults) {
+      const value = getSnapshot(namespace, memoryOnly)
+      if (namespaces ? namespaces.includes(namespace) : !isEqual(value, defaultValue)) {
+        snapshot.set(namespace, value)
+      }
+    }
+    return snapshot
+  }
+
+  /**
+   * Runs `fn` and notifies the listeners of the namespaces it changed once it returns, each
+   * listener once against the values before and after; storage writes and cross-tab messages
+   * are also sent then. Nested batches end with the outermost one.
+   *
+   * @param fn - The changes to make
+   * @returns The return value of `fn`
+   */
+  function batch<R>(fn: () => R): R {
+    if (batchDepth++ === 0) {
+      store.hold()
+      memoryStore.hold()
+    }
+    try {
+      return fn()
+    } finally {
+      if (--batchDepth === 0) endBatch()
+    }
+  }
+
+  function endBatch() {
+    store.release()
+    memoryStore.release()
+    const changed = [...batchedNamespaces]
+    batchedNamespaces.clear()
+    for (const [namespace, oldValue] of changed) {
+      const newValue = memoryStore.get(namespace)
+      if (!isEqual(oldValue, newValue)) notifyNamespace(namespace, oldValue, newValue)
+    }
+    const patched = [...batchedPatches]
+    batchedPatches.clear()
+    for (const [namespace, { patches, inversePatches }] of patched) {
+      patchListeners.get(namespace)?.forEach(listener => {
+        listener(patches, inversePatches)
+      })
+    }
+  }
+
+  /**
+   * Records the value of a namespace before the current batch changes `key` for the first time.
+   *
+   * @returns Whether a batch is running, in which case listeners are notified when it ends
+   */
+  function deferNotification(key: string, oldValue: unknown): boolean {
+    if (batchDepth === 0) return false
+    const namespace = getNamespace(key)
+    if (!batchedNamespaces.has(namespace)) {
+      // only `key` changed since the batch started
+      batchedNamespaces.set(
+        namespace,
+        key === namespace
+          ? oldValue
+          : setNestedValue(memoryStore.get(namespace), key.slice(namespace.length + 1), oldValue)
+      )
+    }
+    return true
+  }
+
+  /** Notifies the listeners of a whole namespace, including the subscribers of an atom. */
+  function notifyNamespace(namespace: string, oldValue: unknown, newValue: unknown) {
+    if (deferNotification(namespace, oldValue)) return
+    notifyListeners(namespace, oldValue, newValue)
+    atomListeners.get(namespace)?.forEach(listener => {
+      listener()
+    })
+  }
+
+  /**
+   * Listens to the changes made to a namespace, as JSON Patch operations: those of `produce` and
+   * `rename`, and the replacement of the whole value by a reset, `hydrate` or another tab.
+   *
+   * @param namespace - The namespace
+   * @param listener - Receives the patches and their inverses, once per batch
+   * @returns An unsubscribe function to remove the listener
+   */
+  function onPatches(namespace: string, listener: PatchListener) {
+    if (!patchListeners.has(namespace)) patchListeners.set(namespace, new Set())
+    patchListeners.get(namespace)!.add(listener)
+    return () => {
+      patchListeners.get(namespace)?.delete(listener)
+      if (patchListeners.get(namespace)?.size === 0) patchListeners.delete(namespace)
+    }
+  }
+
+  /** Whether the namespace of a key has patch listeners, to skip building unused patches. */
+  function hasPatchListeners(key: string) {
+    return patchListeners.has(getNamespace(key))
+  }
+
+  /** Sends a patch of the namespace of `key` to its listeners, when the current batch ends. */
+  function emitPatch(key: string, [patch, inversePatch]: [JsonPatchOperation, JsonPatchOperation]) {
+    const namespace = getNamespace(key)
+    if (batchDepth > 0) {
+      if (!batchedPatches.has(namespace)) {
+        batchedPatches.set(namespace, { patches: [], inversePatches: [] })
+      }
+      const batched = batchedPatches.get(namespace)!
+      batched.patches.push(patch)
+      batched.inversePatches.unshift(inversePatch)
+      return
+    }
+    patchListeners.get(namespace)?.forEach(listener => {
+      listener([patch], [inversePatch])
+    })
+  }
+
+  /** Sends the replacement of a whole namespace written to memory without `produce`. */
+  function emitRootPatch(namespace: string, oldValue: unknown, newValue: unknown) {
+    if (!hasPatchListeners(namespace) || isEqual(oldValue, newValue)) return
+    emitPatch(namespace, writePatches('', oldValue, newValue))
+  }
+
+  /** The path of a key within its namespace. */
+  function pathOf(key: string) {
+    const namespace = getNamespace(key)
+    return key === namespace ? '' : key.slice(namespace.length + 1)
+  }
+
+  /**
+   * Puts the default value of a namespace, and of the stores nested in it, back in memory after
+   * it was cleared.
+   */
+  function restoreDefaults(namespace: string, oldValue: unknown) {
+    let value = namespaceDefaults.get(namespace)?.defaultValue
+    for (const [key, { defaultValue }] of namespaceDefaults) {
+      if (key.startsWith(`${namespace}.`)) {
+        value = setNestedValue(value ?? {}, key.slice(namespace.length + 1), defaultValue)
+      }
+    }
+    if (value !== undefined) {
+      inMemStorage.set(namespace, value)
+    }
+    emitRootPatch(namespace, oldValue, value)
+    notifyNamespace(namespace, oldValue, value)
+  }
+
+  /** Writes deferred changes of a namespace to storage immediately. */
+  function flushNamespace(namespace: string) {
+    store.flush(namespace)
+  }
+
+  /** Sizes of the last payload of a namespace written to or read from storage. */
+  function namespaceStats(namespace: string): CompressionStats | undefined {
+    return store.stats(namespace)
+  }
+
+  /** Reads the persisted value of a namespace, waiting for asynchronous storages. */
+  function hydrateNamespace(namespace: string): Promise<unknown> {
+    return store.hydrate(namespace)
+  }
+
+  /** Snapshot getter used by React's useSyncExternalStore. */
+  function getSnapshot(key: string, memoryOnly: boolean) {
+    if (isVirtualKey(key)) {
+      return virtualRevisions.get(key) ?? 0
+    }
+    if (memoryOnly) {
+      return memoryStore.get(key)
+    } else {
+      return store.get(key)
+    }
+  }
+
+  /**
+   * Server snapshot getter used by React's useSyncExternalStore, for server rendering and
+   * hydration.
+   *
+   * For hydration-safe namespaces it is the default value merged with the server value (see
+   * `hydrate`), which is what the server rendered: the persisted value, only known to the
+   * client, is rendered right after hydration. Otherwise it is the current value.
+   */
+  function getServerSnapshot(key: string, memoryOnly: boolean) {
+    const namespace = getNamespace(key)
+    const defaults = namespaceDefaults.get(namespace)
+    if (isVirtualKey(key) || !defaults?.hydrationSafe) {
+      return getSnapshot(key, memoryOnly)
+    }
+    let rootValue = serverSnapshots.get(namespace)
+    if (rootValue === undefined) {
+      rootValue = mergeWithDefaults(defaults.defaultValue, getServerValue(namespace))
+      serverSnapshots.set(namespace, rootValue)
+    }
+    return getNestedValue(rootValue, key.slice(namespace.length + 1))
+  }
+
+  /** Updates the snapshot of a key. */
+  function updateSnapshot(key: string, value: unknown, memoryOnly: boolean) {
+    if (memoryOnly) {
+      memoryStore.set(key, value)
+    } else {
+      store.set(key, value)
+    }
+  }
+
+  /**
+   * Notifies all relevant listeners when a value changes.
+   *
+   * Handles three types of listeners:
+   * 1. Exact match - listeners subscribed to the exact changed path
+   * 2. Root listeners - listeners on the namespace root (for full-store subscriptions)
+   * 3. Child listeners - listeners on nested paths that may be affected by the change
+   *
+   * Child listeners are only notified if their specific value actually changed,
+   * determined by deep equality comparison.
+   */
+  function notifyListeners(
+    key: string,
+    oldValue: unknown,
+    newValue: unknown,
+    { skipRoot = false, skipChildren = false, forceNotify = false } = {}
+  ) {
+    if (!forceNotify && !isVirtualKey(key) && deferNotification(key, oldValue)) return
+
+    // Keep `state.xxx.keys()` in sync: any mutation under a path can change the set of
+    // keys for that path (or its ancestors). Keys are represented as virtual nodes at
+    // `${path}.__juststore_keys`, so we bump those virtual nodes here.
+    //
+    // Important: avoid recursion when *we* are notifying a virtual key.
+    if (!isVirtualKey(key)) {
+      const paths = [...getKeyPrefixes(key), key]
+      for (const p of paths) {
+        const virtualKey = joinChildKey(p, '__juststore_keys')
+        const listenerSet = listeners.get(virtualKey)
+        if (listenerSet && listenerSet.size > 0) {
+          // Only notify the virtual key subscribers; the current call will handle
+          // ancestors/children for the real key.
+          notifyVirtualKey(virtualKey)
+        }
+      }
+    }
+
+    if (skipRoot && skipChildren) {
+      if (!forceNotify && isEqual(oldValue, newValue)) {
+        return
+      }
+      // exact match only
+      const listenerSet = listeners.get(key)
+      if (listenerSet) {
+        listenerSet.forEach(listener => {
+          listener()
+        })
+      }
+      return
+    }
+
+    // Exact key match
+    const exactSet = listeners.get(key)
+    if (exactSet) {
+      exactSet.forEach(listener => {
+        listener()
+      })
+    }
+
+    // Ancestor keys match (including namespace root)
+    if (!skipRoot) {
+      const namespace = getNamespace(key)
+      if (namespace !== key) {
+        const rootSet = listeners.get(namespace)
+        if (rootSet) {
+          rootSet.forEach(listener => {
+            listener()
+          })
+        }
+      }
+
+      // Also notify intermediate ancestors
+      const prefixes = getKeyPrefixes(key)
+      for (const prefix of prefixes) {
+        if (prefix === namespace) continue // Already handled
+        const prefixSet = listeners.get(prefix)
+        if (prefixSet) {
+          prefixSet.forEach(listener => {
+            listener()
+          })
+        }
+      }
+    }
+
+    // Child key match - check if value actually changed
+    if (!skipChildren) {
+      const childKeys = descendantListenerKeysByPrefix.get(key)
+      if (childKeys) {
+        for (const childKey of childKeys) {
+          if (isVirtualKey(childKey)) {
+            const childPath = childKey.slice(key.length + 1)
+            const suffix = '.__juststore_keys'
+            const objectPath = childPath.endsWith(suffix) ? childPath.slice(0, -suffix.length) : ''
+
+            const getKeys = (root: unknown) => {
+              const obj = objectPath ? getNestedValue(root, objectPath) : root
+              return getStableKeys(obj)
+            }
+
+            const oldKeys = getKeys(oldValue)
+            const newKeys = getKeys(newValue)
+
+            if (forceNotify || !isEqual(oldKeys, newKeys)) {
+              notifyVirtualKey(childKey)
+            }
+            continue
+          }
+
+          const childPath = childKey.slice(key.length + 1)
+          const oldChildValue = getNestedValue(oldValue, childPath)
+          const newChildValue = getNestedValue(newValue, childPath)
+
+          if (forceNotify || !isEqual(oldChildValue, newChildValue)) {
+            const childSet = listeners.get(childKey)
+            if (childSet) {
+              childSet.forEach(listener => {
+                listener()
+              })
+            }
+          }
+        }
+      }
+    }
+  }
+
+  function notifyVirtualKey(key: string) {
+    virtualRevisions.set(key, (virtualRevisions.get(key) ?? 0) + 1)
+    notifyListeners(key, undefined, undefined, {
+      skipRoot: true,
+      skipChildren: true,
+      forceNotify: true
+    })
+  }
+
+  /**
+   * Subscribes to changes for a specific key.
+   *
+   * @param key - The full key path to subscribe to
+   * @param listener - Callback invoked when the value changes
+   * @returns An unsubscribe function to remove the listener
+   */
+  function subscribe(key: string, listener: () => void) {
+    if (!listeners.has(key)) {
+      listeners.set(key, new Set())
+    }
+    listeners.get(key)?.add(listener)
+
+    const prefixes = getKeyPrefixes(key)
+    for (const prefix of prefixes) {
+      if (!descendantListenerKeysByPrefix.has(prefix)) {
+        descendantListenerKeysByPrefix.set(prefix, new Set())
+      }
+      descendantListenerKeysByPrefix.get(prefix)?.add(key)
+    }
+
+    return () => {
+      const keyListeners = listeners.get(key)
+      if (keyListeners) {
+        keyListeners.delete(listener)
+        if (keyListeners.size === 0) {
+          listeners.delete(key)
+
+          for (const prefix of prefixes) {
+            const prefixKeys = descendantListenerKeysByPrefix.get(prefix)
+            if (prefixKeys) {
+              prefixKeys.delete(key)
+              if (prefixKeys.size === 0) {
+                descendantListenerKeysByPrefix.delete(prefix)
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  function useCompute<T = unknown, R = unknown>(
+    namespace: string,
+    path: string | undefined,
+    fn: (value: T) => R,
+    deps?: readonly unknown[],
+    memoryOnly = false
+  ) {
+    const fullPath = joinPath(namespace, path)
+    const fnRef = useRef(fn)
+    fnRef.current = fn
+
+    const cacheRef = useRef<ComputeCache<R> | null>(null)
+    const serverCacheRef = useRef<ComputeCache<R> | null>(null)
+    const depsRef = useRef<readonly unknown[] | undefined>(deps)
+
+    // Invalidate cached compute when hook inputs change.
+    if (!isEqual(depsRef.current, deps)) {
+      depsRef.current = deps
+      cacheRef.current = null
+      serverCacheRef.current = null
+    }
+
+    const pathRef = useRef(fullPath)
+    if (pathRef.current !== fullPath) {
+      pathRef.current = fullPath
+      cacheRef.current = null
+      serverCacheRef.current = null
+    }
+
+    const subscribeToPath = useCallback(
+      (onStoreChange: () => void) => subscribe(fullPath, onStoreChange),
+      [fullPath]
+    )
+    const compute = (cache: { current: ComputeCache<R> | null }, storeValue: T) => {
+      if (cache.current && Object.is(cache.current.storeValue, storeValue)) {
+        // same store value, return the same computed value
+        return cache.current.computed
+      }
+      const computedNext = fnRef.current(storeValue)
+
+      // Important: even if storeValue changed, we should avoid forcing a re-render
+      // when the computed result is logically unchanged. `useSyncExternalStore`
+      // uses `Object.is` on the snapshot; returning the same reference will bail out.
+      if (cache.current && isEqual(cache.current.computed, computedNext)) {
+        cache.current.storeValue = storeValue
+        return cache.current.computed
+      }
+
+      cache.current = { storeValue, computed: computedNext }
+      return computedNext
+    }
+    const getComputedSnapshot = useCallback(
+      () => compute(cacheRef, getSnapshot(fullPath, memoryOnly) as T),
+      [fullPath, memoryOnly]
+    )
+    const getServerComputedSnapshot = useCallback(
+      () => compute(serverCacheRef, getServerSnapshot(fullPath, memoryOnly) as T),
+      [fullPath, memoryOnly]
+    )
+
+    return useSyncExternalStore(subscribeToPath, getComputedSnapshot, getServerComputedSnapshot)
+  }
+
+  /**
+   * Core mutation function that updates the store and notifies listeners.
+   *
+   * Handles both setting and deleting values, with optimizations to skip
+   * unnecessary updates when the value hasn't changed.
+   *
+   * @param key - The full key path to update
+   * @param value - The new value, or undefined to delete
+   * @param skipUpdate - When true, skips notifying listeners
+   * @param memoryOnly - When true, skips localStorage persistence
+   */
+  function produce(key: string, value: unknown, skipUpdate: boolean, memoryOnly: boolean) {
+    if (skipUpdate) {
+      if (!hasPatchListeners(key)) {
+        updateSnapshot(key, value, memoryOnly)
+        return
+      }
+      const previous = getSnapshot(key, memoryOnly)
+      updateSnapshot(key, value, memoryOnly)
+      if (!isEqual(previous, value)) emitPatch(key, writePatches(pathOf(key), previous, value))
+      return
+    }
+
+    const current = getSnapshot(key, memoryOnly)
+
+    if (isEqual(current, value)) return
+    updateSnapshot(key, value, memoryOnly)
+
+    // Notify listeners hierarchically with old and new values
+    notifyListeners(key, current, value)
+    if (hasPatchListeners(key)) emitPatch(key, writePatches(pathOf(key), current, value))
+  }
+
+  /**
+   * Renames a key in an object.
+   *
+   * It trigger updates to
+   *
+   *  - listeners to `path` (key is updated)
+   *  - listeners to `path.oldKey` (deleted)
+   *  - listeners to `path.newKey` (created)
+   *
+   * @param path - The full key path to rename
+   * @param oldKey - The old key to rename
+   * @param newKey - The new key to rename to
+   */
+  function rename(path: string, oldKey: string, newKey: string, memoryOnly: boolean) {
+    const current = getSnapshot(path, memoryOnly)
+    if (current === undefined || current === null || typeof current !== 'object') {
+      // assign a new object with the new key
+      const next = { [newKey]: undefined }
+      updateSnapshot(path, next, memoryOnly)
+      setExternalKeyOrder(next, [newKey])
+      notifyListeners(path, current, next)
+      if (hasPatchListeners(path)) emitPatch(path, writePatches(pathOf(path), current, next))
+      return
+    }
+
+    const obj = current as Record<string, unknown>
+    if (oldKey === newKey) return
+    if (!Object.hasOwn(obj, oldKey)) return
+
+    const keyOrder = getStableKeys(obj)
+    const entries: [string, unknown][] = []
+
+    for (const key of keyOrder) {
+      if (!Object.hasOwn(obj, key)) continue
+      if (key === oldKey) {
+        entries.push([newKey, obj[oldKey]])
+        continue
+      }
+      entries.push([key, obj[key]])
+    }
+
+    const newObject = Object.fromEntries(entries)
+    updateSnapshot(path, newObject, memoryOnly)
+    setExternalKeyOrder(newObject, Array.from(new Set(entries.map(([k]) => k))))
+    notifyListeners(path, current, newObject)
+    if (hasPatchListeners(path)) emitPatch(path, renamePatches(pathOf(path), oldKey, newKey))
+  }
+
+  /**
+   * React hook that subscribes to and reads a value at a path.
+   *
+   * Uses useSyncExternalStore for tear-free reads and automatic re-rendering
+   * when the subscribed value changes.
+   *
+   * @param key - The namespace or full key
+   * @param path - Optional path within the namespace
+   * @param memoryOnly - When true, skips localStorage persistence
+   * @returns The current value at the path, or undefined if not set
+   */
+  function useObject<T extends FieldValues, P extends FieldPath<T>>(
+    key: string,
+    path: P | undefined,
+    memoryOnly: boolean
+  ) {
+    const fullKey = joinPath(key, path)
+    const value = useSyncExternalStore(
+      listener => subscribe(fullKey, listener),
+      () => getSnapshot(fullKey, memoryOnly),
+      () => getServerSnapshot(fullKey, memoryOnly)
+    )
+
+    return value as FieldPathValue<T, P> | undefined
+  }
+
+  /**
+   * React hook that subscribes to a value with debounced updates.
+   *
+   * The returned value only updates after the specified delay has passed
+   * since the last change, useful for expensive operations like search.
+   *
+   * @param key - The namespace or full key
+   * @param path - Path within the namespace
+   * @param delay - Debounce delay in milliseconds
+   * @param memoryOnly - When true, skips localStorage persistence
+   * @returns The debounced value at the path
+   */
+  function useDebounce<T extends FieldValues, P extends FieldPath<T>>(
+    key: string,
+    path: P,
+    delay: number,
+    memoryOnly: boolean
+  ): FieldPathValue<T, P> | undefined {
+    const fullKey = joinPath(key, path)
+    const currentValue = useSyncExternalStore(
+      listener => subscribe(fullKey, listener),
+      () => getSnapshot(fullKey, memoryOnly),
+      () => getServerSnapshot(fullKey, memoryOnly)
+    ) as FieldPathValue<T, P>
+
+    const [debouncedValue, setDebouncedValue] = useState(currentValue)
+    const timeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+
+    useEffect(() => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
+      }
+
+      timeoutRef.current = setTimeout(() => {
+        if (!isEqual(debouncedValue, currentValue)) {
+          setDebouncedValue(currentValue)
+        }
+      }, delay)
+
+      return () => {
+        if (timeoutRef.current) {
+          clearTimeout(timeoutRef.current)
+        }
+      }
+    }, [currentValue, delay, debouncedValue])
+
+    return debouncedValue as FieldPathValue<T, P> | undefined
+  }
+
+  /**
+   * Sets a value at a specific path within a namespace.
+   *
+   * @param key - The namespace
+   * @param path - Path within the namespace
+   * @param value - The value to set, or undefined to delete
+   * @param skipUpdate - When true, skips notifying listeners
+   * @param memoryOnly - When true, skips localStorage persistence
+   */
+  function setLeaf<T extends FieldValues, P extends FieldPath<T>>(
+    key: string,
+    path: P,
+    value: FieldPathValue<T, P> | undefined,
+    skipUpdate = false,
+    memoryOnly = false
+  ) {
+    const fullKey = joinPath(key, path)
+    produce(fullKey, value, skipUpdate, memoryOnly)
+  }
+
+  /**
+   * Applies a change received from another tab and notifies affected listeners.
+   *
+   * @param message - The message received from the cross-tab transport
+   * @param memoryOnly - Whether the namespace is memory-only
+   */
+  function receiveSyncMessage(message: SyncMessage, memoryOnly = false) {
+    const { key } = message
+
+    // Store old value before updating
+    const oldRootValue = memoryStore.get(key)
+
+    if (memoryOnly) {
+      memoryStore.applyRemote(message)
+    } else {
+      store.applyRemote(message)
+    }
+
+    if (message.type === 'reset') {
+      // a reset older than a local change is ignored and leaves the namespace in memory
+      if (!inMemStorage.has(key)) restoreDefaults(key, oldRootValue)
+      return
+    }
+
+    // Notify all listeners that might be affected by this root key change
+    const newRootValue = memoryStore.get(key)
+    emitRootPatch(key, oldRootValue, newRootValue)
+    notifyNamespace(key, oldRootValue, newRootValue)
+  }
+
+  const syncedNamespaces = new Set<string>()
+  // every tab resets all of its namespaces when one of them calls clearAll
+  transport?.subscribe(ALL_NAMESPACES, message => {
+    if (message.type !== 'reset') return
+    for (const namespace of rootNamespaces()) {
+      receiveSyncMessage({ type: 'reset', key: namespace }, isMemoryOnly(namespace))
+    }
+  })
+
+  /**
+   * Starts receiving the changes other tabs make to a namespace.
+   *
+   * @param namespace - The namespace
+   * @param memoryOnly - Whether the namespace is memory-only
+   */
+  function syncNamespace(namespace: string, memoryOnly: boolean) {
+    if (!transport || syncedNamespaces.has(namespace)) return
+    syncedNamespaces.add(namespace)
+    transport.subscribe(namespace, message => {
+      if (message.type !== 'leader') receiveSyncMessage(message, memoryOnly)
+    })
+  }
+
+  // Write deferred changes before the page is hidden or unloaded
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => store.flush())
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') store.flush()
+    })
+  }
+
+  function testReset() {
+    store.reset()
+    memoryStore.reset()
+    namespaceDefaults.clear()
+    serverValues.clear()
+    serverSnapshots.clear()
+  }
+
+  /** Development-only debug helpers exposed on window.__pc_debug in development. */
+  const debug = {
+    getStoreSize: () => store.size,
+    getListenerSize: () => listeners.size,
+    getStore: () => memoryStore,
+    getStoreValue: (key: string) => memoryStore.get(key),
+    getListeners: () => listeners
+  }
+
+  return {
+    atomListeners,
+    batch,
+    clearAll,
+    configureNamespace,
+    debug,
+    flush: () => store.flush(),
+    flushNamespace,
+    getServerSnapshot,
+    getServerValue,
+    getSnapshot,
+    hydrateNamespace,
+    namespaceStats,
+    notifyListeners,
+    notifyNamespace,
+    onPatches,
+    produce,
+    receiveSyncMessage,
+    registerNamespace,
+    rename,
+    resetNamespace,
+    seedNamespace,
+    setLeaf,
+    snapshotNamespaces,
+    subscribe,
+    syncNamespace,
+    testReset,
+    updateSnapshot,
+    useCompute,
+    useDebounce,
+    useObject
+  }
+}
+
+/**
+ * The container of stores created without one: persisted to localStorage and synchronized
+ * across tabs with BroadcastChannel, or the storage event where it is missing.
+ */
+const defaultContainer = createContainer(undefined, getDefaultTransport())
+
+/** The internals of a container, or of the default container. */
+function containerOf(container?: StoreContainer): Container {
+  // every StoreContainer is created by createContainer
+  return (container as Container | undefined) ?? defaultContainer
+}
+
+const { batch, clearAll, getSnapshot, produce, receiveSyncMessage, rename, testReset } =
+  defaultContainer
+
+// Expose debug in browser for quick inspection during development
+if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
+  ;(window as unknown as { __pc_debug: typeof defaultContainer.debug }).__pc_debug =
+    defaultContainer.debug
+}
@@ -0,0 +1,170 @@
+import { type CompressionCodec, decompressPayload } from './compression'
+import { dropExpired } from './expiry'
+import { unwrapPersisted } from './persistence'
+import { jsonSerializer, type Serializer } from './serializer'
+import { DEFAULT_STORAGE_PREFIX, type StorageAdapter } from './storage'
+
+export {
+  type CookieHeaderOptions,
+  type CookieStorageOptions,
+  cookieVersions,
+  createCookieStorageAdapter,
+  parseCookieHeader
+}
+
+type CookieStorageOptions = {
+  /** Prefix prepended to every cookie name (default: `juststore:`) */
+  prefix?: string
+  /** Cookie path (default: `/`) */
+  path?: string
+  /** Cookie domain (default: the current host) */
+  domain?: string
+  /** SameSite attribute (default: `lax`) */
+  sameSite?: 'strict' | 'lax' | 'none'
+  /** Secure attribute (default: on HTTPS pages, and always with `sameSite: 'none'`) */
+  secure?: boolean
+  /** Lifetime of the cookies in seconds (default: one year) */
+  maxAge?: number
+  /**
+   * Largest cookie, name and value included, in bytes (default: 4096, the limit of most
+   * browsers). Larger payloads fail like a full storage, see `onStorageError` and `eviction`.
+   */
+  maxSize?: number
+}
+
+type CookieHeaderOptions = {
+  /** Prefix of the cookie names, as given to `createCookieStorageAdapter` (default: `juststore:`) */
+  prefix?: string
+  /** Serializer of the stores (default: JSON) */
+  serializer?: Serializer
+  /** Custom compression codec of the stores, if any */
+  compression?: CompressionCodec
+}
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+/**
+ * Creates a storage adapter that keeps each namespace in a cookie of its own, so that the
+ * server sees it with every request; see `parseCookieHeader`.
+ *
+ * Cookies are sent with every request and limited in size: use it for small namespaces such
+ * as theme or locale preferences. All operations are no-ops on the server.
+ *
+ * @param options - Adapter options
+ * @returns The storage adapter
+ * @example
+ * const prefsStore = createStore('prefs', { theme: 'light', locale: 'en' }, {
+ *   storage: createCookieStorageAdapter({ sameSite: 'strict' })
+ * })
+ */
+function createCookieStorageAdapter({
+  prefix = DEFAULT_STORAGE_PREFIX,
+  path = '/',
+  domain,
+  sameSite = 'lax',
+  secure,
+  maxAge = ONE_YEAR,
+  maxSize = 4096
+}: CookieStorageOptions = {}): StorageAdapter {
+  const write = (key: string, value: string, age: number) => {
+    if (typeof document === 'undefined') return
+    const cookie = `${encodeURIComponent(`${prefix}${key}`)}=${encodeURIComponent(value)}`
+    if (new TextEncoder().encode(cookie).length > maxSize) {
+      throw new DOMException(
+        `Cookie "${prefix}${key}" is larger than ${maxSize} bytes`,
+        'QuotaExceededError'
+      )
+    }
+    const isSecure = secure ?? (sameSite === 'none' || globalThis.location?.protocol === 'https:')
+    const attributes = [
+      `Path=${path}`,
+      domain && `Domain=${domain}`,
+      `Max-Age=${age}`,
+      `SameSite=${sameSite[0]!.toUpperCase()}${sameSite.slice(1)}`,
+      isSecure && 'Secure'
+    ]
+    document.cookie = [cookie, ...attributes.filter(Boolean)].join('; ')
+  }
+  const cookies = () =>
+    typeof document === 'undefined' ? new Map<string, string>() : parseCookies(document.cookie)
+
+  return {
+    get: key => cookies().get(`${prefix}${key}`),
+    set: (key, value) => write(key, value, maxAge),
+    delete: key => write(key, '', 0),
+    list: () =>
+      [...cookies().keys()]
+        .filter(name => name.startsWith(prefix))
+        .map(name => name.slice(prefix.length))
+  }
+}
+
+/** Versions of the values returned by `parseCookieHeader` by namespace, see `hydrate`. */
+const cookieVersions = new WeakMap<Record<string, unknown>, Record<string, number>>()
+
+/**
+ * Reads the values of the stores persisted with `createCookieStorageAdapter` from the `Cookie`
+ * header of a request, to seed the stores rendered on the server with `hydrate`. The client
+ * reads the same cookies, so server and client render the same values.
+ *
+ * Expired values are left out. `hydrate` migrates the values written by a store with a `version`
+ * to the version of the store, given the returned object itself; partial persistence is applied
+ * by the stores.
+ *
+ * @param header - The `Cookie` header of the request
+ * @param options - Options matching the adapter and the stores
+ * @returns The values keyed by namespace
+ * @example
+ * const container = createStoreContainer()
+ * hydrate(parseCookieHeader(request.headers.get('cookie')), { container })
+ * const html = renderToString(
+ *   <StoreProvider container={container}>
+ *     <App />
+ *   </StoreProvider>
+ * )
+ */
+function parseCookieHeader(
+  header: string | null | undefined,
+  {
+    prefix = DEFAULT_STORAGE_PREFIX,
+    serializer = jsonSerializer,
+    compression
+  }: CookieHeaderOptions = {}
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  const versions: Record<string, number> = {}
+  for (const [name, payload] of parseCookies(header ?? '')) {
+    if (!name.startsWith(prefix) || !payload) continue
+    try {
+      const { value: stored, meta } = unwrapPersisted(
+        serializer.parse(decompressPayload(payload, compression).text)
+      )
+      const { value } = dropExpired(stored, meta, Date.now())
+      if (value === undefined) continue
+      const namespace = name.slice(prefix.length)
+      values[namespace] = value
+      if (meta.version !== undefined) versions[namespace] = meta.version
+    } catch {
+      // a corrupt cookie is ignored like a corrupt payload, the store falls back to defaults
+    }
+  }
+  cookieVersions.set(values, versions)
+  return values
+}
+
+/** Parses `name=value` pairs of a `Cookie` header or `document.cookie`, decoding both. */
+function parseCookies(header: string): Map<string, string> {
+  const cookies = new Map<string, string>()
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=')
+    if (index === -1) continue
+    try {
+      const name = decodeURIComponent(pair.slice(0, index).trim())
+      // the first cookie of a name is the one with the most specific path
+      if (!cookies.has(name)) cookies.set(name, decodeURIComponent(pair.slice(index + 1).trim()))
+    } catch {
+      // not written by this adapter
+    }
+  }
+  return cookies
+}
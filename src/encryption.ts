@@ -0,0 +1,154 @@
+import type { AnyStorageAdapter, AsyncStorageAdapter } from './storage'
+import { DecryptionError } from './storage_error'
+
+export { createEncryptedStorageAdapter, type EncryptedStorageOptions, type EncryptionKey }
+
+/**
+ * AES-GCM key material: a `CryptoKey`, raw key bytes (16, 24 or 32), or a function
+ * resolving to either (e.g. fetched after login). Functions are called once, on first use.
+ */
+type EncryptionKey = CryptoKey | Uint8Array | (() => Promise<CryptoKey | Uint8Array>)
+
+type EncryptedStorageOptions = {
+  /** The key used to encrypt and decrypt payloads */
+  key: EncryptionKey
+  /**
+   * Accept payloads that are not encrypted yet, e.g. written before encryption was enabled.
+   * They are encrypted on the next write (default: false, such payloads fail to decrypt).
+   */
+  allowPlaintext?: boolean
+}
+
+const PAYLOAD_PREFIX = 'aes-gcm:'
+const IV_LENGTH = 12
+
+/**
+ * Wraps a storage adapter so that payloads are encrypted with AES-GCM (Web Crypto)
+ * before they reach it.
+ *
+ * Each payload gets a random IV and is bound to its namespace, so ciphertext copied to
+ * another namespace fails to decrypt. The wrapped adapter is asynchronous: stores using it
+ * start with their defaults and hydrate once the payload is decrypted.
+ *
+ * When a payload cannot be decrypted (wrong key, tampering), it is reported to
+ * `onStorageError` as a `decryption` error and the store keeps its defaults. The stored
+ * payload is left untouched until the store is written to.
+ *
+ * @param storage - The adapter holding the encrypted payloads
+ * @param options - Key material and options
+ * @returns The encrypting storage adapter
+ * @example
+ * const authStore = createStore('auth', { token: '' }, {
+ *   storage: createEncryptedStorageAdapter(createLocalStorageAdapter(), { key })
+ * })
+ * await authStore.onHydrated
+ */
+function createEncryptedStorageAdapter(
+  storage: AnyStorageAdapter,
+  { key, allowPlaintext = false }: EncryptedStorageOptions
+): AsyncStorageAdapter {
+  let keyPromise: Promise<CryptoKey> | undefined
+  const getKey = () =>
+    (keyPromise ??= importKey(key).catch(e => {
+      // allow retrying on the next operation
+      keyPromise = undefined
+      throw e
+    }))
+  /** Pending writes by key, so that payloads land in the order they were written. */
+  const writes = new Map<string, Promise<unknown>>()
+
+  const decrypt = async (name: string, payload: string): Promise<string> => {
+    if (!payload.startsWith(PAYLOAD_PREFIX)) {
+      if (allowPlaintext) return payload
+      throw new DecryptionError(name, 'payload is not encrypted')
+    }
+    const cryptoKey = await getKey()
+    let plaintext: ArrayBuffer
+    try {
+      const bytes = fromBase64(payload.slice(PAYLOAD_PREFIX.length))
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: bytes.subarray(0, IV_LENGTH),
+          additionalData: new TextEncoder().encode(name)
+        },
+        cryptoKey,
+        bytes.subarray(IV_LENGTH)
+      )
+    } catch (e) {
+      throw new DecryptionError(name, 'wrong key or corrupted payload', e)
+    }
+    return new TextDecoder().decode(plaintext)
+  }
+
+  const encrypt = async (name: string, value: string): Promise<string> => {
+    const cryptoKey = await getKey()
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(name) },
+      cryptoKey,
+      new TextEncoder().encode(value)
+    )
+    const bytes = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+    bytes.set(iv)
+    bytes.set(new Uint8Array(ciphertext), IV_LENGTH)
+    return PAYLOAD_PREFIX + toBase64(bytes)
+  }
+
+  /** Runs an operation on a key after the previous one completed. */
+  const enqueue = (name: string, operation: () => Promise<void>): Promise<void> => {
+    const result = (writes.get(name) ?? Promise.resolve()).then(operation)
+    const settled = result.catch(() => {})
+    writes.set(name, settled)
+    void settled.then(() => {
+      if (writes.get(name) === settled) writes.delete(name)
+    })
+    return result
+  }
+
+  return {
+    async: true,
+    get: async name => {
+      await writes.get(name)
+      const payload = await storage.get(name)
+      if (payload === undefined) return undefined
+      return decrypt(name, payload)
+    },
+    set: (name, value) =>
+      enqueue(name, async () => {
+        await storage.set(name, await encrypt(name, value))
+      }),
+    delete: name =>
+      enqueue(name, async () => {
+        await storage.delete(name)
+      }),
+    list: async () => storage.list()
+  }
+}
+
+async function importKey(key: EncryptionKey): Promise<CryptoKey> {
+  const material = typeof key === 'function' ? await key() : key
+  if (!(material instanceof Uint8Array)) return material
+  // copy into a plain ArrayBuffer, Web Crypto rejects shared buffers
+  return crypto.subtle.importKey('raw', new Uint8Array(material), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt'
+  ])
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
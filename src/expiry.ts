@@ -0,0 +1,99 @@
+import { getNestedValue, isEqual, setNestedValue } from './impl'
+import type { FieldPath, FieldValues } from './path'
+
+export { dropExpired, type ExpiryMeta, nextExpiry, refreshExpiry, type TTLOptions, type TTLPaths }
+
+/**
+ * Time-to-live of a persisted namespace and of individual paths, in milliseconds.
+ *
+ * The clock restarts whenever the namespace (or path) changes. Expired values fall back
+ * to their defaults when read from storage, and are reset while the app is running.
+ */
+type TTLOptions<T extends FieldValues = FieldValues> = {
+  /** TTL of the whole namespace */
+  namespace?: number
+  /** TTL of individual paths */
+  paths?: Partial<Record<FieldPath<T>, number>>
+}
+
+/** Untyped form of `TTLOptions` used by the storage layer. */
+type TTLPaths = {
+  namespace?: number
+  paths?: Partial<Record<string, number>>
+}
+
+/** Expiry timestamps persisted next to a namespace payload. */
+type ExpiryMeta = {
+  /** When the whole namespace expires */
+  expiresAt?: number
+  /** When individual paths expire */
+  pathExpiresAt?: Record<string, number>
+}
+
+/**
+ * Restarts the expiry clocks affected by a change.
+ *
+ * @param meta - Current expiry timestamps
+ * @param ttl - The namespace's TTL options
+ * @param previous - Namespace value before the change
+ * @param next - Namespace value after the change
+ * @param now - Current time
+ * @returns Updated expiry timestamps
+ */
+function refreshExpiry(
+  meta: ExpiryMeta,
+  { namespace, paths }: TTLPaths,
+  previous: unknown,
+  next: unknown,
+  now: number
+): ExpiryMeta {
+  const pathExpiresAt = { ...meta.pathExpiresAt }
+  for (const [path, ttl] of Object.entries(paths ?? {})) {
+    if (ttl === undefined) continue
+    if (!isEqual(getNestedValue(previous, path), getNestedValue(next, path))) {
+      pathExpiresAt[path] = now + ttl
+    }
+  }
+  return {
+    expiresAt: namespace === undefined ? meta.expiresAt : now + namespace,
+    pathExpiresAt: Object.keys(pathExpiresAt).length > 0 ? pathExpiresAt : undefined
+  }
+}
+
+/**
+ * Removes expired paths from a value read from storage.
+ *
+ * @returns The remaining value (undefined when the namespace expired) and expiry timestamps
+ */
+function dropExpired(
+  value: unknown,
+  meta: ExpiryMeta,
+  now: number
+): { value: unknown; meta: ExpiryMeta } {
+  if (meta.expiresAt !== undefined && meta.expiresAt <= now) {
+    return { value: undefined, meta: {} }
+  }
+  let result = value
+  const pathExpiresAt: Record<string, number> = {}
+  for (const [path, expiresAt] of Object.entries(meta.pathExpiresAt ?? {})) {
+    if (expiresAt > now) {
+      pathExpiresAt[path] = expiresAt
+    } else if (getNestedValue(result, path) !== undefined) {
+      result = setNestedValue(result, path, undefined)
+    }
+  }
+  return {
+    value: result,
+    meta: {
+      expiresAt: meta.expiresAt,
+      pathExpiresAt: Object.keys(pathExpiresAt).length > 0 ? pathExpiresAt : undefined
+    }
+  }
+}
+
+/** The earliest expiry timestamp, if any. */
+function nextExpiry({ expiresAt, pathExpiresAt }: ExpiryMeta): number | undefined {
+  const timestamps = Object.values(pathExpiresAt ?? {})
+  if (expiresAt !== undefined) timestamps.push(expiresAt)
+  return timestamps.length > 0 ? Math.min(...timestamps) : undefined
+}
@@ -3,9 +3,10 @@
 
 import { pascalCase } from 'change-case'
 import { useEffect, useId, useMemo } from 'react'
-import { getSnapshot, produce } from './impl'
+import { containerOf, type StoreContainer } from './container'
 import { createNode } from './node'
 import type { FieldPath, FieldPathValue, FieldValues, IsEqual } from './path'
+import { useStoreContainer } from './provider'
 import { createStoreRoot } from './root'
 import type {
   ArrayProxy,
@@ -168,9 +169,10 @@ function useForm<T extends FieldValues>(
 ): FormStore<T> {
   const formId = useId()
   const namespace = `form:${formId}`
+  const container = useStoreContainer()
   const [form, unsubscribeFns] = useMemo(
-    () => createForm(namespace, defaultValue, fieldConfigs),
-    [namespace, defaultValue, fieldConfigs]
+    () => createForm(namespace, defaultValue, fieldConfigs, container),
+    [namespace, defaultValue, fieldConfigs, container]
   )
   useEffect(() => {
     return () => {
@@ -185,17 +187,20 @@ function useForm<T extends FieldValues>(
 function createForm<T extends FieldValues>(
   namespace: string,
   defaultValue: T,
-  fieldConfigs: CreateFormOptions<T> = {}
+  fieldConfigs: CreateFormOptions<T> = {},
+  container?: StoreContainer
 ): [FormStore<T>, UnsubscribeFns] {
+  const { getSnapshot, produce } = containerOf(container)
   const errorNamespace = `_juststore_form_errors.${namespace}`
   const errorStore = createStoreRoot<Record<string, string | undefined>>(
     errorNamespace,
     {},
-    { memoryOnly: true }
+    { memoryOnly: true, container }
   )
 
   const storeApi = createStoreRoot<T>(namespace, defaultValue, {
-    memoryOnly: true
+    memoryOnly: true,
+    container
   })
 
   const store = createFormProxy<T>(storeApi, errorStore) as unknown as FormStore<T>
@@ -0,0 +1,150 @@
+import {
+  type FSWatcher,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  watch,
+  writeFileSync
+} from 'node:fs'
+import { join } from 'node:path'
+import type { StorageAdapter } from './storage'
+import type { SyncTransport, TransportMessage } from './transport'
+
+export { createFileStorage, type FileStorage, type FileStorageOptions }
+
+type FileStorageOptions = {
+  /** Directory holding one `<namespace>.json` file per namespace, created when missing */
+  directory: string
+}
+
+/** Storage and transport of a directory, to pass to `createStoreContainer`. */
+type FileStorage = {
+  /** Keeps each namespace in a JSON file of the directory. */
+  storage: StorageAdapter
+  /** Reloads the namespaces that other processes change in the directory. */
+  transport: SyncTransport
+}
+
+const EXTENSION = '.json'
+
+/**
+ * Creates a storage adapter keeping each namespace in a JSON file, for Node, Electron main
+ * processes and CLIs, together with a transport that watches the directory for changes made by
+ * other processes, like the `storage` event across tabs.
+ *
+ * Files are written atomically: to a temporary file first, then renamed over the namespace
+ * file. Only namespace changes are shared with other processes; leader election is not.
+ *
+ * @param options - Storage options
+ * @returns The storage and transport, to pass to `createStoreContainer`
+ * @example
+ * import { createFileStorage } from 'juststore/fs'
+ *
+ * const container = createStoreContainer(createFileStorage({ directory: '.config/app' }))
+ * const settingsStore = createStore('settings', { verbose: false }, { container })
+ */
+function createFileStorage({ directory }: FileStorageOptions): FileStorage {
+  /** The content of each file as last read or written by this process. */
+  const known = new Map<string, string | undefined>()
+  const listeners = new Map<string, Set<(message: TransportMessage) => void>>()
+  let watcher: FSWatcher | undefined
+
+  const fileOf = (key: string) => join(directory, `${encodeURIComponent(key)}${EXTENSION}`)
+  const read = (key: string) => {
+    try {
+      return readFileSync(fileOf(key), 'utf8')
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+      throw e
+    }
+  }
+
+  const storage: StorageAdapter = {
+    get: key => {
+      const payload = read(key)
+      known.set(key, payload)
+      return payload
+    },
+    set: (key, value) => {
+      mkdirSync(directory, { recursive: true })
+      const file = fileOf(key)
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`
+      try {
+        writeFileSync(temp, value)
+        renameSync(temp, file)
+      } catch (e) {
+        rmSync(temp, { force: true })
+        throw e
+      }
+      known.set(key, value)
+    },
+    delete: key => {
+      rmSync(fileOf(key), { force: true })
+      known.set(key, undefined)
+    },
+    list: () => {
+      let files: string[]
+      try {
+        files = readdirSync(directory)
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw e
+      }
+      return files
+        .filter(file => file.endsWith(EXTENSION))
+        .map(file => decodeURIComponent(file.slice(0, -EXTENSION.length)))
+    }
+  }
+
+  const reload = (key: string) => {
+    const payload = read(key)
+    // events are repeated and also fire for the writes of this process
+    if (known.has(key) && known.get(key) === payload) return
+    known.set(key, payload)
+    const message: TransportMessage =
+      payload === undefined
+        ? { type: 'reset', key }
+        : { type: 'set', key, path: '', payload, persisted: true }
+    listeners.get(key)?.forEach(listener => {
+      listener(message)
+    })
+  }
+
+  const startWatching = () => {
+    mkdirSync(directory, { recursive: true })
+    watcher = watch(directory, (_event, file) => {
+      if (!file?.endsWith(EXTENSION)) return
+      const key = decodeURIComponent(file.slice(0, -EXTENSION.length))
+      if (!listeners.has(key)) return
+      try {
+        reload(key)
+      } catch {
+        // unreadable for now, the next change is reloaded
+      }
+    })
+    // a CLI exits once its work is done, even while watching
+    watcher.unref()
+  }
+
+  const transport: SyncTransport = {
+    // other processes see namespace changes through the file writes
+    post: () => {},
+    subscribe: (key, listener) => {
+      if (!watcher) startWatching()
+      if (!listeners.has(key)) listeners.set(key, new Set())
+      listeners.get(key)!.add(listener)
+      return () => {
+        listeners.get(key)?.delete(listener)
+        if (listeners.get(key)?.size === 0) listeners.delete(key)
+        if (listeners.size === 0) {
+          watcher?.close()
+          watcher = undefined
+        }
+      }
+    }
+  }
+
+  return { storage, transport }
+}
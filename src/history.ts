@@ -0,0 +1,142 @@
+import { useSyncExternalStore } from 'react'
+import { isEqual } from './impl'
+import type { FieldPath, FieldValues } from './path'
+import type { StoreRoot, ValueState } from './types'
+
+export { createHistory, type History, type HistoryOptions }
+
+type HistoryOptions = {
+  /** Largest number of steps that can be undone (default: 100) */
+  limit?: number
+  /** Changes made within this many milliseconds of the previous one are undone together (default: 0) */
+  coalesceMs?: number
+}
+
+/** A state whose history can be recorded: a state node or an atom. */
+type HistoryState<T> = Pick<ValueState<T>, 'subscribe' | 'value'> & { set: (value: T) => void }
+
+/** Undo/redo history of a state, see `createHistory`. */
+type History = {
+  /** Whether there is a step to undo. */
+  readonly canUndo: boolean
+  /** Whether there is a step to redo. */
+  readonly canRedo: boolean
+  /** Subscribe to whether there is a step to undo. Re-renders when it changes. */
+  useCanUndo: () => boolean
+  /** Subscribe to whether there is a step to redo. Re-renders when it changes. */
+  useCanRedo: () => boolean
+  /** Restore the value before the last step. */
+  undo: () => void
+  /** Restore the value undone last. */
+  redo: () => void
+  /** Forget every step, keeping the current value. */
+  clear: () => void
+  /** Stop recording changes. */
+  dispose: () => void
+}
+
+/**
+ * Records the changes of a state (a store, any path below it, or an atom) to undo and redo them.
+ *
+ * Every notification of the state is one step: the changes made in a `batch` are undone
+ * together, and so are changes made in quick succession with `coalesceMs`. Making a change
+ * after undoing drops the steps that could be redone.
+ *
+ * @param target - The store, state or atom to record
+ * @param options - History options
+ * @returns The history
+ * @example
+ * const configHistory = createHistory(configStore.editor, { coalesceMs: 500 })
+ *
+ * function UndoButton() {
+ *   const canUndo = configHistory.useCanUndo()
+ *   return <button disabled={!canUndo} onClick={configHistory.undo}>Undo</button>
+ * }
+ */
+function createHistory<T extends FieldValues>(
+  store: StoreRoot<T>,
+  options?: HistoryOptions
+): History
+function createHistory<T>(state: HistoryState<T>, options?: HistoryOptions): History
+function createHistory<T>(
+  target: HistoryState<T> | StoreRoot<FieldValues>,
+  { limit = 100, coalesceMs = 0 }: HistoryOptions = {}
+): History {
+  const state = 'resetAll' in target ? rootState<T>(target) : target
+  const past: T[] = []
+  const future: T[] = []
+  let current = state.value
+  /** When the last recorded change was made, 0 after undo and redo */
+  let lastChangeAt = 0
+  const listeners = new Set<() => void>()
+
+  const notify = () => {
+    listeners.forEach(listener => {
+      listener()
+    })
+  }
+
+  const unsubscribe = state.subscribe(value => {
+    // our own undo and redo
+    if (isEqual(value, current)) return
+    const now = Date.now()
+    if (past.length === 0 || now - lastChangeAt >= coalesceMs) {
+      past.push(current)
+      if (past.length > limit) past.shift()
+    }
+    future.length = 0
+    current = value
+    lastChangeAt = now
+    notify()
+  })
+
+  const restore = (from: T[], to: T[]) => {
+    if (from.length === 0) return
+    to.push(current)
+    current = from.pop()!
+    lastChangeAt = 0
+    state.set(current)
+    notify()
+  }
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+  const getCanUndo = () => past.length > 0
+  const getCanRedo = () => future.length > 0
+
+  return {
+    get canUndo() {
+      return getCanUndo()
+    },
+    get canRedo() {
+      return getCanRedo()
+    },
+    useCanUndo: () => useSyncExternalStore(subscribe, getCanUndo, getCanUndo),
+    useCanRedo: () => useSyncExternalStore(subscribe, getCanRedo, getCanRedo),
+    undo: () => restore(past, future),
+    redo: () => restore(future, past),
+    clear: () => {
+      past.length = 0
+      future.length = 0
+      notify()
+    },
+    dispose: unsubscribe
+  }
+}
+
+/** The whole value of a store, as a state. */
+function rootState<T>(store: StoreRoot<FieldValues>): HistoryState<T> {
+  // the empty path is the namespace itself
+  const root = '' as FieldPath<FieldValues>
+  return {
+    get value() {
+      return store.value(root) as T
+    },
+    set: value => store.set(root, value),
+    subscribe: listener => store.subscribe(root, value => listener(value as T))
+  }
+}
@@ -1,48 +1,20 @@
-import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react'
 import rfcIsEqual from 'react-fast-compare'
-import { KVStore } from './kv_store'
-import type { FieldPath, FieldPathValue, FieldValues } from './path'
 import { getExternalKeyOrder, getStableKeys, setExternalKeyOrder } from './stable_keys'
 
 export {
+  getKeyPrefixes,
+  getNamespace,
   getNestedValue,
-  getSnapshot,
   getStableKeys,
   isClass,
   isEqual,
   isRecord,
+  isVirtualKey,
+  joinChildKey,
   joinPath,
-  notifyListeners,
-  produce,
-  rename,
+  mergeWithDefaults,
   setExternalKeyOrder,
-  setLeaf,
-  setNestedValue,
-  subscribe,
-  testReset,
-  updateSnapshot,
-  useCompute,
-  useDebounce,
-  useObject
-}
-
-const inMemStorage = new Map<string, unknown>()
-const listeners = new Map<string, Set<() => void>>()
-const descendantListenerKeysByPrefix = new Map<string, Set<string>>()
-const virtualRevisions = new Map<string, number>()
-
-const store = new KVStore({
-  inMemStorage,
-  memoryOnly: false
-})
-const memoryStore = new KVStore({
-  inMemStorage,
-  memoryOnly: true
-})
-
-function testReset() {
-  store.reset()
-  memoryStore.reset()
+  setNestedValue
 }
 
 function isVirtualKey(key: string) {
@@ -131,27 +103,6 @@ function getKeyPrefixes(key: string): string[] {
   return prefixes
 }
 
-/** Snapshot getter used by React's useSyncExternalStore. */
-function getSnapshot(key: string, memoryOnly: boolean) {
-  if (isVirtualKey(key)) {
-    return virtualRevisions.get(key) ?? 0
-  }
-  if (memoryOnly) {
-    return memoryStore.get(key)
-  } else {
-    return store.get(key)
-  }
-}
-
-/** Updates the snapshot of a key. */
-function updateSnapshot(key: string, value: unknown, memoryOnly: boolean) {
-  if (memoryOnly) {
-    memoryStore.set(key, value)
-  } else {
-    store.set(key, value)
-  }
-}
-
 // Path traversal utilities
 /** Get a nested value from an object/array using a dot-separated path. */
 function getNestedValue(obj: unknown, path: string): unknown {
@@ -304,440 +255,33 @@ function setNestedValue(obj: unknown, path: string, value: unknown): unknown {
 }
 
 /**
- * Notifies all relevant listeners when a value changes.
- *
- * Handles three types of listeners:
- * 1. Exact match - listeners subscribed to the exact changed path
- * 2. Root listeners - listeners on the namespace root (for full-store subscriptions)
- * 3. Child listeners - listeners on nested paths that may be affected by the change
- *
- * Child listeners are only notified if their specific value actually changed,
- * determined by deep equality comparison.
- */
-function notifyListeners(
-  key: string,
-  oldValue: unknown,
-  newValue: unknown,
-  { skipRoot = false, skipChildren = false, forceNotify = false } = {}
-) {
-  // Keep `state.xxx.keys()` in sync: any mutation under a path can change the set of
-  // keys for that path (or its ancestors). Keys are represented as virtual nodes at
-  // `${path}.__juststore_keys`, so we bump those virtual nodes here.
-  //
-  // Important: avoid recursion when *we* are notifying a virtual key.
-  if (!isVirtualKey(key)) {
-    const paths = [...getKeyPrefixes(key), key]
-    for (const p of paths) {
-      const virtualKey = joinChildKey(p, '__juststore_keys')
-      const listenerSet = listeners.get(virtualKey)
-      if (listenerSet && listenerSet.size > 0) {
-        // Only notify the virtual key subscribers; the current call will handle
-        // ancestors/children for the real key.
-        notifyVirtualKey(virtualKey)
-      }
-    }
-  }
-
-  if (skipRoot && skipChildren) {
-    if (!forceNotify && isEqual(oldValue, newValue)) {
-      return
-    }
-    // exact match only
-    const listenerSet = listeners.get(key)
-    if (listenerSet) {
-      listenerSet.forEach(listener => {
-        listener()
-      })
-    }
-    return
-  }
-
-  // Exact key match
-  const exactSet = listeners.get(key)
-  if (exactSet) {
-    exactSet.forEach(listener => {
-      listener()
-    })
-  }
-
-  // Ancestor keys match (including namespace root)
-  if (!skipRoot) {
-    const namespace = getNamespace(key)
-    if (namespace !== key) {
-      const rootSet = listeners.get(namespace)
-      if (rootSet) {
-        rootSet.forEach(listener => {
-          listener()
-        })
-      }
-    }
-
-    // Also notify intermediate ancestors
-    const prefixes = getKeyPrefixes(key)
-    for (const prefix of prefixes) {
-      if (prefix === namespace) continue // Already handled
-      const prefixSet = listeners.get(prefix)
-      if (prefixSet) {
-        prefixSet.forEach(listener => {
-          listener()
-        })
-      }
-    }
-  }
-
-  // Child key match - check if value actually changed
-  if (!skipChildren) {
-    const childKeys = descendantListenerKeysByPrefix.get(key)
-    if (childKeys) {
-      for (const childKey of childKeys) {
-        if (isVirtualKey(childKey)) {
-          const childPath = childKey.slice(key.length + 1)
-          const suffix = '.__juststore_keys'
-          const objectPath = childPath.endsWith(suffix) ? childPath.slice(0, -suffix.length) : ''
-
-          const getKeys = (root: unknown) => {
-            const obj = objectPath ? getNestedValue(root, objectPath) : root
-            return getStableKeys(obj)
-          }
-
-          const oldKeys = getKeys(oldValue)
-          const newKeys = getKeys(newValue)
-
-          if (forceNotify || !isEqual(oldKeys, newKeys)) {
-            notifyVirtualKey(childKey)
-          }
-          continue
-        }
-
-        const childPath = childKey.slice(key.length + 1)
-        const oldChildValue = getNestedValue(oldValue, childPath)
-        const newChildValue = getNestedValue(newValue, childPath)
-
-        if (forceNotify || !isEqual(oldChildValue, newChildValue)) {
-          const childSet = listeners.get(childKey)
-          if (childSet) {
-            childSet.forEach(listener => {
-              listener()
-            })
-          }
-        }
-      }
-    }
-  }
-}
-
-function notifyVirtualKey(key: string) {
-  virtualRevisions.set(key, (virtualRevisions.get(key) ?? 0) + 1)
-  notifyListeners(key, undefined, undefined, {
-    skipRoot: true,
-    skipChildren: true,
-    forceNotify: true
-  })
-}
-
-/**
- * Subscribes to changes for a specific key.
- *
- * @param key - The full key path to subscribe to
- * @param listener - Callback invoked when the value changes
- * @returns An unsubscribe function to remove the listener
- */
-function subscribe(key: string, listener: () => void) {
-  if (!listeners.has(key)) {
-    listeners.set(key, new Set())
-  }
-  listeners.get(key)?.add(listener)
-
-  const prefixes = getKeyPrefixes(key)
-  for (const prefix of prefixes) {
-    if (!descendantListenerKeysByPrefix.has(prefix)) {
-      descendantListenerKeysByPrefix.set(prefix, new Set())
-    }
-    descendantListenerKeysByPrefix.get(prefix)?.add(key)
-  }
-
-  return () => {
-    const keyListeners = listeners.get(key)
-    if (keyListeners) {
-      keyListeners.delete(listener)
-      if (keyListeners.size === 0) {
-        listeners.delete(key)
-
-        for (const prefix of prefixes) {
-          const prefixKeys = descendantListenerKeysByPrefix.get(prefix)
-          if (prefixKeys) {
-            prefixKeys.delete(key)
-            if (prefixKeys.size === 0) {
-              descendantListenerKeysByPrefix.delete(prefix)
-            }
-          }
-        }
-      }
-    }
-  }
-}
-
-function useCompute<T = unknown, R = unknown>(
-  namespace: string,
-  path: string | undefined,
-  fn: (value: T) => R,
-  deps?: readonly unknown[],
-  memoryOnly = false
-) {
-  const fullPath = joinPath(namespace, path)
-  const fnRef = useRef(fn)
-  fnRef.current = fn
-
-  const cacheRef = useRef<{
-    storeValue: unknown
-    computed: R
-  } | null>(null)
-  const depsRef = useRef<readonly unknown[] | undefined>(deps)
-
-  // Invalidate cached compute when hook inputs change.
-  if (!isEqual(depsRef.current, deps)) {
-    depsRef.current = deps
-    cacheRef.current = null
-  }
-
-  const pathRef = useRef(fullPath)
-  if (pathRef.current !== fullPath) {
-    pathRef.current = fullPath
-    cacheRef.current = null
-  }
-
-  const subscribeToPath = useCallback(
-    (onStoreChange: () => void) => subscribe(fullPath, onStoreChange),
-    [fullPath]
-  )
-  const getComputedSnapshot = useCallback(() => {
-    const storeValue = getSnapshot(fullPath, memoryOnly) as T
-    if (cacheRef.current && Object.is(cacheRef.current.storeValue, storeValue)) {
-      // same store value, return the same computed value
-      return cacheRef.current.computed
-    }
-    const computedNext = fnRef.current(storeValue)
-
-    // Important: even if storeValue changed, we should avoid forcing a re-render
-    // when the computed result is logically unchanged. `useSyncExternalStore`
-    // uses `Object.is` on the snapshot; returning the same reference will bail out.
-    if (cacheRef.current && isEqual(cacheRef.current.computed, computedNext)) {
-      cacheRef.current.storeValue = storeValue
-      return cacheRef.current.computed
-    }
-
-    cacheRef.current = { storeValue, computed: computedNext }
-    return computedNext
-  }, [fullPath, memoryOnly])
-
-  return useSyncExternalStore(subscribeToPath, getComputedSnapshot, getComputedSnapshot)
-}
-
-/**
- * Core mutation function that updates the store and notifies listeners.
- *
- * Handles both setting and deleting values, with optimizations to skip
- * unnecessary updates when the value hasn't changed.
+ * Fills the values missing from `existingValue` with `defaultValue`, merging plain objects deeply.
  *
- * @param key - The full key path to update
- * @param value - The new value, or undefined to delete
- * @param skipUpdate - When true, skips notifying listeners
- * @param memoryOnly - When true, skips localStorage persistence
+ * @returns `existingValue` with defaults, or `defaultValue` when it is undefined
  */
-function produce(key: string, value: unknown, skipUpdate: boolean, memoryOnly: boolean) {
-  if (skipUpdate) {
-    updateSnapshot(key, value, memoryOnly)
-    return
+function mergeWithDefaults<T>(defaultValue: T, existingValue: unknown): T {
+  if (existingValue === undefined) {
+    return defaultValue
   }
 
-  const current = getSnapshot(key, memoryOnly)
-
-  if (isEqual(current, value)) return
-  updateSnapshot(key, value, memoryOnly)
-
-  // Notify listeners hierarchically with old and new values
-  notifyListeners(key, current, value)
-}
-
-/**
- * Renames a key in an object.
- *
- * It trigger updates to
- *
- *  - listeners to `path` (key is updated)
- *  - listeners to `path.oldKey` (deleted)
- *  - listeners to `path.newKey` (created)
- *
- * @param path - The full key path to rename
- * @param oldKey - The old key to rename
- * @param newKey - The new key to rename to
- */
-function rename(path: string, oldKey: string, newKey: string, memoryOnly: boolean) {
-  const current = getSnapshot(path, memoryOnly)
-  if (current === undefined || current === null || typeof current !== 'object') {
-    // assign a new object with the new key
-    const next = { [newKey]: undefined }
-    updateSnapshot(path, next, memoryOnly)
-    setExternalKeyOrder(next, [newKey])
-    notifyListeners(path, current, next)
-    return
+  if (!isPlainObject(defaultValue) || !isPlainObject(existingValue)) {
+    return existingValue as T
   }
 
-  const obj = current as Record<string, unknown>
-  if (oldKey === newKey) return
-  if (!Object.hasOwn(obj, oldKey)) return
+  const defaults = defaultValue as Record<string, unknown>
+  const existing = existingValue as Record<string, unknown>
+  const merged: Record<string, unknown> = { ...existing }
 
-  const keyOrder = getStableKeys(obj)
-  const entries: [string, unknown][] = []
-
-  for (const key of keyOrder) {
-    if (!Object.hasOwn(obj, key)) continue
-    if (key === oldKey) {
-      entries.push([newKey, obj[oldKey]])
-      continue
-    }
-    entries.push([key, obj[key]])
+  for (const key of Object.keys(defaults)) {
+    merged[key] = mergeWithDefaults(defaults[key], existing[key])
   }
 
-  const newObject = Object.fromEntries(entries)
-  updateSnapshot(path, newObject, memoryOnly)
-  setExternalKeyOrder(newObject, Array.from(new Set(entries.map(([k]) => k))))
-  notifyListeners(path, current, newObject)
-}
-
-/**
- * React hook that subscribes to and reads a value at a path.
- *
- * Uses useSyncExternalStore for tear-free reads and automatic re-rendering
- * when the subscribed value changes.
- *
- * @param key - The namespace or full key
- * @param path - Optional path within the namespace
- * @param memoryOnly - When true, skips localStorage persistence
- * @returns The current value at the path, or undefined if not set
- */
-function useObject<T extends FieldValues, P extends FieldPath<T>>(
-  key: string,
-  path: P | undefined,
-  memoryOnly: boolean
-) {
-  const fullKey = joinPath(key, path)
-  const value = useSyncExternalStore(
-    listener => subscribe(fullKey, listener),
-    () => getSnapshot(fullKey, memoryOnly),
-    () => getSnapshot(fullKey, memoryOnly)
-  )
-
-  return value as FieldPathValue<T, P> | undefined
-}
-
-/**
- * React hook that subscribes to a value with debounced updates.
- *
- * The returned value only updates after the specified delay has passed
- * since the last change, useful for expensive operations like search.
- *
- * @param key - The namespace or full key
- * @param path - Path within the namespace
- * @param delay - Debounce delay in milliseconds
- * @param memoryOnly - When true, skips localStorage persistence
- * @returns The debounced value at the path
- */
-function useDebounce<T extends FieldValues, P extends FieldPath<T>>(
-  key: string,
-  path: P,
-  delay: number,
-  memoryOnly: boolean
-): FieldPathValue<T, P> | undefined {
-  const fullKey = joinPath(key, path)
-  const currentValue = useSyncExternalStore(
-    listener => subscribe(fullKey, listener),
-    () => getSnapshot(fullKey, memoryOnly),
-    () => getSnapshot(fullKey, memoryOnly)
-  ) as FieldPathValue<T, P>
-
-  const [debouncedValue, setDebouncedValue] = useState(currentValue)
-  const timeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
-
-  useEffect(() => {
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current)
-    }
-
-    timeoutRef.current = setTimeout(() => {
-      if (!isEqual(debouncedValue, currentValue)) {
-        setDebouncedValue(currentValue)
-      }
-    }, delay)
-
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current)
-      }
-    }
-  }, [currentValue, delay, debouncedValue])
-
-  return debouncedValue as FieldPathValue<T, P> | undefined
+  return merged as T
 }
 
-/**
- * Sets a value at a specific path within a namespace.
- *
- * @param key - The namespace
- * @param path - Path within the namespace
- * @param value - The value to set, or undefined to delete
- * @param skipUpdate - When true, skips notifying listeners
- * @param memoryOnly - When true, skips localStorage persistence
- */
-function setLeaf<T extends FieldValues, P extends FieldPath<T>>(
-  key: string,
-  path: P,
-  value: FieldPathValue<T, P> | undefined,
-  skipUpdate = false,
-  memoryOnly = false
-) {
-  const fullKey = joinPath(key, path)
-  produce(fullKey, value, skipUpdate, memoryOnly)
-}
-
-// BroadcastChannel for cross-tab synchronization
-const broadcastChannel = typeof window !== 'undefined' ? new BroadcastChannel('juststore') : null
-
-// Cross-tab synchronization: keep memoryStore in sync with BroadcastChannel events
-if (broadcastChannel) {
-  store.setBroadcastChannel(broadcastChannel)
-  memoryStore.setBroadcastChannel(broadcastChannel)
-
-  broadcastChannel.addEventListener('message', event => {
-    const { type, key, value } = event.data
-    if (!key) return
-
-    // Store old value before updating
-    const oldRootValue = memoryStore.get(key)
-
-    if (type === 'delete') {
-      memoryStore.delete(key)
-    } else if (type === 'set') {
-      memoryStore.set(key, value)
-    }
-
-    // Notify all listeners that might be affected by this root key change
-    const newRootValue = type === 'delete' ? undefined : value
-    notifyListeners(key, oldRootValue, newRootValue)
-  })
-}
-
-// Debug helpers (dev only)
-/** Development-only debug helpers exposed on window.__pc_debug in development. */
-const __pc_debug = {
-  getStoreSize: () => store.size,
-  getListenerSize: () => listeners.size,
-  getStore: () => memoryStore,
-  getStoreValue: (key: string) => memoryStore.get(key),
-  getListeners: () => listeners
-}
-
-// Expose debug in browser for quick inspection during development
-if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
-  ;(window as unknown as { __pc_debug: typeof __pc_debug }).__pc_debug = __pc_debug
+// only merge plain objects, values like Date, Map and Set are taken as a whole
+function isPlainObject(value: unknown): boolean {
+  if (!isRecord(value)) return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
 }
@@ -1,10 +1,67 @@
 export { type Atom, createAtom } from './atom'
+export type { LogicalClock, MergeConflict, MergeStrategy } from './clock'
+export { type CompressionCodec, type CompressionStats, lzUTF16Codec } from './compression'
+export {
+  type CookieHeaderOptions,
+  type CookieStorageOptions,
+  createCookieStorageAdapter,
+  parseCookieHeader
+} from './cookie'
+export {
+  createEncryptedStorageAdapter,
+  type EncryptedStorageOptions,
+  type EncryptionKey
+} from './encryption'
+export {
+  batch,
+  clearAll,
+  createStoreContainer,
+  runWithStoreContainer,
+  type StoreContainer,
+  type StoreContainerOptions
+} from './container'
+export type { TTLOptions } from './expiry'
 export type * from './form'
 export { useForm } from './form'
+export { createHistory, type History, type HistoryOptions } from './history'
 export { isEqual } from './impl'
+export { createIndexedDBAdapter, type IndexedDBAdapterOptions } from './indexed_db'
+export type { EvictionPolicy } from './kv_store'
+export { createLeaderElection, type LeaderElection, type LeaderElectionOptions } from './leader'
 export { createMemoryStore, type MemoryStore, useMemoryStore } from './memory'
+export { addMiddleware, type StoreMiddleware, type StoreWrite } from './middleware'
 export { createMixedState } from './mixed_state'
+export {
+  fromJsonPointer,
+  type JsonPatchOperation,
+  type PatchListener,
+  toJsonPointer
+} from './patch'
 export type * from './path'
+export type { PersistOptions, StoreMigrations, WriteBehindOptions } from './persistence'
+export { StoreProvider, useStoreContainer } from './provider'
+export type { StoreOptions } from './root'
+export { jsonSerializer, type Serializer, taggedJSONSerializer } from './serializer'
+export {
+  type AnyStorageAdapter,
+  type AsyncStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  createSessionStorageAdapter,
+  type StorageAdapter,
+  type WebStorageAdapterOptions
+} from './storage'
+export { dehydrate, type DehydrateOptions, hydrate, type HydrateOptions } from './ssr'
+export { StorageError, type StorageErrorKind, type StorageOperation } from './storage_error'
 export { createStore, type Store } from './store'
+export {
+  createBroadcastChannelTransport,
+  createStorageEventTransport,
+  type LeaderMessage,
+  type StorageEventTransportOptions,
+  type SyncMessage,
+  type SyncTransport,
+  type TransportMessage
+} from './transport'
 export type * from './types'
 export * from './utils'
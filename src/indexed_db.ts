@@ -0,0 +1,78 @@
+import type { AsyncStorageAdapter } from './storage'
+
+export { createIndexedDBAdapter, type IndexedDBAdapterOptions }
+
+type IndexedDBAdapterOptions = {
+  /** Database name (default: `juststore`) */
+  dbName?: string
+  /** Object store name (default: `namespaces`) */
+  storeName?: string
+}
+
+/**
+ * Creates an asynchronous storage adapter that keeps each namespace in IndexedDB.
+ *
+ * The database is opened lazily on first use. All operations resolve to
+ * empty results on SSR or when IndexedDB is unavailable.
+ *
+ * @param options - Adapter options
+ * @returns The storage adapter
+ * @example
+ * const uptimeStore = createStore('uptime', { history: [] }, {
+ *   storage: createIndexedDBAdapter()
+ * })
+ * await uptimeStore.onHydrated
+ */
+function createIndexedDBAdapter({
+  dbName = 'juststore',
+  storeName = 'namespaces'
+}: IndexedDBAdapterOptions = {}): AsyncStorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | undefined
+
+  const openDB = () =>
+    (dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // allow retrying on the next operation
+        dbPromise = undefined
+        reject(request.error)
+      }
+    }))
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> => {
+    if (typeof indexedDB === 'undefined') return undefined
+    const db = await openDB()
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode)
+      const request = fn(tx.objectStore(storeName))
+      tx.oncomplete = () => resolve(request.result)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  return {
+    async: true,
+    get: async key => {
+      const value = await run<unknown>('readonly', store => store.get(key))
+      return typeof value === 'string' ? value : undefined
+    },
+    set: async (key, value) => {
+      await run('readwrite', store => store.put(value, key))
+    },
+    delete: async key => {
+      await run('readwrite', store => store.delete(key))
+    },
+    list: async () => {
+      const keys = await run('readonly', store => store.getAllKeys())
+      return (keys ?? []).map(String)
+    }
+  }
+}
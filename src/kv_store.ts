@@ -1,12 +1,62 @@
-import { getNestedValue, setNestedValue } from './impl'
-import { localStorageDelete, localStorageGet, localStorageSet } from './local_storage'
+import {
+  compareClocks,
+  createTabId,
+  type LogicalClock,
+  type MergeStrategy,
+  newestOverlapping,
+  recordClock
+} from './clock'
+import {
+  type CompressionCodec,
+  type CompressionStats,
+  compressPayload,
+  decompressPayload
+} from './compression'
+import { dropExpired, type ExpiryMeta, nextExpiry, refreshExpiry, type TTLPaths } from './expiry'
+import { getNestedValue, isEqual, setNestedValue } from './impl'
+import {
+  migratePersisted,
+  partializePersisted,
+  type PersistPaths,
+  restoreTransient,
+  scheduleWrite,
+  type StoreMigrations,
+  unwrapPersisted,
+  type WriteBehindOptions,
+  wrapPersisted
+} from './persistence'
+import { jsonSerializer, type Serializer } from './serializer'
+import { type AnyStorageAdapter, localStorageAdapter, type StorageAdapter } from './storage'
+import {
+  DecryptionError,
+  isQuotaExceeded,
+  StorageError,
+  type StorageErrorKind,
+  type StorageOperation
+} from './storage_error'
+import type { SyncMessage, SyncTransport } from './transport'
 
-export { getNestedValue, type KeyValueStore, KVStore, setNestedValue }
+export {
+  type EvictionPolicy,
+  getNestedValue,
+  type KeyValueStore,
+  KVStore,
+  type NamespaceOptions,
+  setNestedValue
+}
 
 type KeyValueStore = {
-  getBroadcastChannel: () => BroadcastChannel | undefined
-  setBroadcastChannel: (broadcastChannel: BroadcastChannel) => void
+  getTransport: () => SyncTransport | undefined
+  setTransport: (transport: SyncTransport) => void
 
+  configure: (namespace: string, options: NamespaceOptions) => void
+  applyRemote: (message: SyncMessage) => void
+  hydrate: (namespace: string) => Promise<unknown>
+  flush: (namespace?: string) => void
+  clear: (namespace: string) => void
+  clearStorage: () => void
+  stats: (namespace: string) => CompressionStats | undefined
+  migrate: (namespace: string, value: unknown, version: number) => unknown
   get: (key: string) => unknown
   set: (key: string, value: unknown) => void
   delete: (key: string) => void
@@ -14,39 +64,157 @@ type KeyValueStore = {
   readonly size: number
 }
 
+/**
+ * Persistence options of a single namespace.
+ */
+type NamespaceOptions = {
+  /** Storage adapter used to persist the namespace (default: localStorage) */
+  storage?: AnyStorageAdapter
+  /** Schema version persisted next to the payload */
+  version?: number
+  /** Migrations applied when an older version is loaded */
+  migrate?: StoreMigrations
+  /** Decides the value when the persisted version is newer than `version` */
+  onNewerVersion?: (persisted: unknown, persistedVersion: number) => unknown
+  /** Paths to persist and broadcast (default: the whole namespace) */
+  persist?: PersistPaths
+  /** Serializer for storage and cross-tab payloads (default: JSON) */
+  serializer?: Serializer
+  /** Compresses stored payloads (default: none) */
+  compression?: CompressionCodec
+  /** Defers storage writes and cross-tab messages (default: write on every change) */
+  writeBehind?: WriteBehindOptions
+  /** Receives storage failures (default: console.error) */
+  onStorageError?: (error: StorageError) => void
+  /** What to drop from storage when a write exceeds its quota (default: nothing) */
+  eviction?: EvictionPolicy
+  /** Whether the namespace may be dropped from storage to make room for others */
+  evictable?: boolean
+  /** Time-to-live of the namespace and of individual paths */
+  ttl?: TTLPaths
+  /** Called with the expired path ('' for the whole namespace) while the app is running */
+  onExpire?: (path: string) => void
+  /** Whether changes are sent to other tabs (default: 'tabs', or false for memory-only stores) */
+  sync?: false | 'tabs'
+  /** How concurrent changes from other tabs are resolved (default: 'lww') */
+  merge?: MergeStrategy
+}
+
+/**
+ * - `evictable`: drop namespaces marked `evictable`, least recently written first
+ * - `lru`: drop any other namespace of the same storage, least recently written first
+ *
+ * Namespaces not written since the page loaded count as the least recently written.
+ */
+type EvictionPolicy = 'evictable' | 'lru'
+
 type CreateKVStoreOptions = {
   inMemStorage: Map<string, unknown>
-  broadcastChannel?: BroadcastChannel
+  transport?: SyncTransport
   memoryOnly: boolean
+  /** Storage adapter for namespaces without their own (default: localStorage) */
+  storage?: StorageAdapter
 }
 
 class KVStore implements KeyValueStore {
   private inMemStorage: Map<string, unknown>
-  private broadcastChannel?: BroadcastChannel
+  private transport?: SyncTransport
   private memoryOnly: boolean
+  private defaultStorage: StorageAdapter
+  private namespaceOptions = new Map<string, NamespaceOptions>()
+  /** Deferred writes by namespace, see `NamespaceOptions.writeBehind`. */
+  private pendingWrites = new Map<
+    string,
+    { value: unknown; clock: LogicalClock; cancel: () => void }
+  >()
+  /** Namespaces being hydrated, mapped to the paths written to in the meantime. */
+  private hydrating = new Map<string, Set<string>>()
+  /** Write sequence number by namespace, used to evict the least recently written. */
+  private lastWritten = new Map<string, number>()
+  private writeSeq = 0
+  /** Expiry timestamps by namespace, see `NamespaceOptions.ttl`. */
+  private expiry = new Map<string, ExpiryMeta>()
+  private expiryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  /** Sizes of the last payload written or read by namespace. */
+  private payloadStats = new Map<string, CompressionStats>()
+  private tabId = createTabId()
+  /** Lamport clock of this tab, see `NamespaceOptions.merge`. */
+  private clock = 0
+  /** Clocks of the last changes by namespace and path ('' only, with `lww`). */
+  private clocks = new Map<string, Map<string, LogicalClock>>()
+  /** Commits held during a batch by namespace: the value before the batch and the changed paths. */
+  private held?: Map<string, { previous: unknown; paths: Set<string> }>
 
   constructor(options: CreateKVStoreOptions) {
     this.inMemStorage = options.inMemStorage
-    this.broadcastChannel = options.broadcastChannel
+    this.transport = options.transport
     this.memoryOnly = options.memoryOnly
+    this.defaultStorage = options.storage ?? localStorageAdapter
+  }
+
+  getTransport(): SyncTransport | undefined {
+    return this.transport
+  }
+
+  setTransport(transport: SyncTransport) {
+    this.transport = transport
   }
 
-  getBroadcastChannel(): BroadcastChannel | undefined {
-    return this.broadcastChannel
+  /** Sets the persistence options of a namespace. */
+  configure(namespace: string, options: NamespaceOptions) {
+    this.namespaceOptions.set(namespace, options)
   }
 
-  setBroadcastChannel(broadcastChannel: BroadcastChannel) {
-    this.broadcastChannel = broadcastChannel
+  /**
+   * Reads a namespace from its (possibly asynchronous) storage.
+   *
+   * Resolves to undefined when nothing is persisted or on error. Changes made to the namespace
+   * before the read completed are kept in memory but not persisted until then: they are applied
+   * on top of the persisted value (local writes take precedence), which is then written back.
+   */
+  async hydrate(namespace: string): Promise<unknown> {
+    if (this.memoryOnly) return undefined
+    const written = new Set<string>()
+    this.hydrating.set(namespace, written)
+    let item: string | undefined
+    try {
+      item = await this.storageFor(namespace).get(namespace)
+    } catch (e) {
+      this.reportFailure(namespace, 'read', e)
+    }
+    this.hydrating.delete(namespace)
+    const { value, clock } = this.decode(namespace, item)
+    if (clock) this.observe(namespace, '', clock)
+    const current = this.inMemStorage.get(namespace)
+    const persist = this.namespaceOptions.get(namespace)?.persist
+    // paths that are not persisted keep their value in memory
+    let next =
+      persist && value !== undefined && current !== undefined
+        ? restoreTransient(current, value, persist)
+        : value
+    if (written.size === 0) return next
+
+    for (const path of written) {
+      next = path ? setNestedValue(next ?? {}, path, getNestedValue(current, path)) : current
+    }
+    this.cancelPendingWrite(namespace)
+    this.stamp(namespace, '')
+    if (next === undefined) {
+      this.deletePersisted(namespace)
+    } else {
+      this.writePersisted(namespace, persist ? partializePersisted(next, persist) : next)
+    }
+    return next
   }
 
   get(key: string) {
     const [rootKey, path] = splitNSPath(key)
-    // Get root object from memory or localStorage
+    // Get root object from memory or storage
     let rootValue: unknown
     if (this.inMemStorage.has(rootKey)) {
       rootValue = this.inMemStorage.get(rootKey)
-    } else if (!this.memoryOnly && typeof window !== 'undefined') {
-      rootValue = localStorageGet(rootKey)
+    } else {
+      rootValue = this.readPersisted(rootKey)
       if (rootValue !== undefined) {
         this.inMemStorage.set(rootKey, rootValue)
       }
@@ -66,6 +234,7 @@ class KVStore implements KeyValueStore {
 
     const [rootKey, path] = splitNSPath(key)
 
+    const currentRoot = this.inMemStorage.get(rootKey) ?? this.readPersisted(rootKey)
     let rootValue: unknown
 
     if (!path) {
@@ -73,26 +242,14 @@ class KVStore implements KeyValueStore {
       rootValue = value
     } else {
       // Setting nested value
-      const currentRoot = this.inMemStorage.get(rootKey) ?? localStorageGet(rootKey) ?? {}
-      rootValue = setNestedValue(currentRoot, path, value)
+      rootValue = setNestedValue(currentRoot ?? {}, path, value)
     }
 
     // Update memory
     this.inMemStorage.set(rootKey, rootValue)
 
-    // Persist to localStorage (unless memoryOnly)
-    if (!this.memoryOnly && typeof window !== 'undefined') {
-      localStorageSet(rootKey, rootValue)
-
-      // Broadcast change to other tabs
-      if (this.broadcastChannel) {
-        this.broadcastChannel.postMessage({
-          type: 'set',
-          key: rootKey,
-          value: rootValue
-        })
-      }
-    }
+    // Persist to storage and broadcast to other tabs
+    this.commit(rootKey, currentRoot, rootValue, path)
   }
 
   delete(key: string) {
@@ -100,49 +257,650 @@ class KVStore implements KeyValueStore {
 
     if (!path) {
       // Deleting root key
-      this.inMemStorage.delete(rootKey)
-      if (!this.memoryOnly && typeof window !== 'undefined') {
-        localStorageDelete(rootKey)
-        if (this.broadcastChannel) {
-          this.broadcastChannel.postMessage({ type: 'delete', key: rootKey })
-        }
+      this.discard(rootKey)
+      if (!this.memoryOnly) {
+        this.deletePersisted(rootKey)
       }
+      this.broadcast(rootKey, undefined, '', this.stamp(rootKey, ''))
     } else {
       // Deleting nested value
-      const currentRoot = this.inMemStorage.get(rootKey) ?? localStorageGet(rootKey)
+      const currentRoot = this.inMemStorage.get(rootKey) ?? this.readPersisted(rootKey)
       if (currentRoot !== undefined) {
         const updatedRoot = setNestedValue(currentRoot, path, undefined)
         this.inMemStorage.set(rootKey, updatedRoot)
+        this.commit(rootKey, currentRoot, updatedRoot, path)
+      }
+    }
+  }
+
+  /**
+   * Applies a change received from another tab to memory, without persisting or
+   * broadcasting it. Local values of paths that are not persisted are kept, and
+   * payloads that cannot be decoded are ignored.
+   *
+   * Changes older than a local change are resolved by the namespace's merge strategy,
+   * and resets older than a local change are ignored. As the sending tab has already
+   * persisted its change, the winning value is then persisted and sent again.
+   */
+  applyRemote(message: SyncMessage) {
+    if (message.type === 'reset') {
+      const { key: rootKey, clock } = message
+      const newest = this.latestClock(rootKey)
+      if (clock && newest && compareClocks(clock, newest) < 0) {
+        this.reassert(rootKey, '')
+        return
+      }
+      this.discard(rootKey)
+      this.clocks.delete(rootKey)
+      // changes made before the reset are ignored from now on
+      if (clock) this.observe(rootKey, '', clock)
+      return
+    }
+
+    const { key: rootKey, path } = message
+    const local = this.inMemStorage.get(rootKey)
+
+    let incoming: unknown
+    let clock = message.clock
+    let merged = false
+    if (message.type === 'set' && message.persisted) {
+      // stored payloads of async storages (e.g. encrypted) cannot be decoded synchronously
+      if (this.storageFor(rootKey).async) return
+      const decoded = this.decode(rootKey, message.payload)
+      if (decoded.value === undefined) return
+      incoming = decoded.value
+      clock = decoded.clock
+    } else if (message.type === 'set') {
+      try {
+        incoming = this.serializerFor(rootKey).parse(message.payload)
+      } catch (e) {
+        this.report('parse', rootKey, 'broadcast', e)
+        return
+      }
+    }
+
+    if (clock) {
+      const merge = this.namespaceOptions.get(rootKey)?.merge ?? 'lww'
+      const clockPath = merge === 'lww' ? '' : path
+      const newest = newestOverlapping(this.clocks.get(rootKey) ?? new Map(), clockPath)
+      if (newest && compareClocks(clock, newest) < 0) {
+        // older than a local change
+        if (typeof merge !== 'function') {
+          this.reassert(rootKey, path)
+          return
+        }
+        incoming = merge({
+          path,
+          local: getNestedValue(local, path),
+          remote: incoming,
+          localClock: newest,
+          remoteClock: clock
+        })
+        clock = newest
+        merged = true
+      }
+      this.observe(rootKey, clockPath, clock)
+    }
 
-        if (!this.memoryOnly && typeof window !== 'undefined') {
-          localStorageSet(rootKey, updatedRoot)
-          if (this.broadcastChannel) {
-            this.broadcastChannel.postMessage({
-              type: 'set',
-              key: rootKey,
-              value: updatedRoot
-            })
+    if (!path && incoming === undefined) {
+      this.inMemStorage.delete(rootKey)
+      if (merged) this.reassert(rootKey, path)
+      return
+    }
+    let next = path ? setNestedValue(local ?? {}, path, incoming) : incoming
+    const persist = this.namespaceOptions.get(rootKey)?.persist
+    if (persist) {
+      next = restoreTransient(local, partializePersisted(next, persist), persist)
+    }
+    this.refreshExpiry(rootKey, local, next)
+    this.inMemStorage.set(rootKey, next)
+    this.markWritten(rootKey, [path])
+    if (merged) this.reassert(rootKey, path)
+  }
+
+  /** Holds storage writes and cross-tab messages until `release`, see `batch`. */
+  hold() {
+    this.held ??= new Map()
+  }
+
+  /**
+   * Commits the namespaces changed since `hold` once each, sending the changed path to other
+   * tabs when only one changed.
+   */
+  release() {
+    const held = this.held
+    this.held = undefined
+    for (const [rootKey, { previous, paths }] of held ?? []) {
+      // removed during the batch, which was committed right away
+      if (!this.inMemStorage.has(rootKey)) continue
+      const path = paths.size === 1 ? [...paths][0]! : ''
+      this.commit(rootKey, previous, this.inMemStorage.get(rootKey), path, paths)
+    }
+  }
+
+  /** Writes deferred changes of a namespace, or of all namespaces, immediately. */
+  flush(namespace?: string) {
+    const keys = namespace === undefined ? [...this.pendingWrites.keys()] : [namespace]
+    for (const key of keys) {
+      const pending = this.pendingWrites.get(key)
+      if (!pending) continue
+      this.cancelPendingWrite(key)
+      this.writePersisted(key, pending.value)
+      this.broadcast(key, pending.value, '', pending.clock)
+    }
+  }
+
+  /**
+   * Removes a namespace from memory and storage, and tells other tabs to reset it when
+   * it is synchronized.
+   */
+  clear(namespace: string) {
+    this.discard(namespace)
+    if (!this.memoryOnly) {
+      this.deletePersisted(namespace)
+    }
+    this.clocks.delete(namespace)
+    const clock = this.stamp(namespace, '')
+    if (this.synced(namespace)) {
+      this.transport?.post({ type: 'reset', key: namespace, clock })
+    }
+  }
+
+  /**
+   * Deletes every namespace held by the default storage and the storages of configured
+   * namespaces, including namespaces this tab has not loaded.
+   */
+  clearStorage() {
+    if (this.memoryOnly) return
+    const storages = new Set<AnyStorageAdapter>([this.defaultStorage])
+    for (const { storage } of this.namespaceOptions.values()) {
+      if (storage) storages.add(storage)
+    }
+    for (const storage of storages) {
+      const remove = (keys: string[]) => {
+        for (const key of keys) {
+          this.lastWritten.delete(key)
+          try {
+            const result = storage.delete(key)
+            result?.catch(e => this.reportFailure(key, 'delete', e))
+          } catch (e) {
+            this.reportFailure(key, 'delete', e)
           }
         }
       }
+      try {
+        const keys = storage.list()
+        if (Array.isArray(keys)) remove(keys)
+        else keys.then(remove, () => {})
+      } catch {
+        // the storage is unavailable, so there is nothing to delete
+      }
+    }
+  }
+
+  /** Sizes of the last payload written to or read from storage. */
+  stats(namespace: string): CompressionStats | undefined {
+    return this.payloadStats.get(namespace)
+  }
+
+  /**
+   * Migrates a value of a version, e.g. read by the server, to the namespace's version.
+   * Undefined when it cannot be migrated, which is reported as a `parse` error.
+   */
+  migrate(namespace: string, value: unknown, version: number): unknown {
+    const options = this.namespaceOptions.get(namespace)
+    if (!options) return value
+    try {
+      return migratePersisted(value, version, options)
+    } catch (e) {
+      this.report('parse', namespace, 'read', e)
+      return undefined
     }
   }
 
   reset() {
-    if (!this.memoryOnly && typeof window !== 'undefined') {
+    for (const key of [...this.pendingWrites.keys()]) {
+      this.cancelPendingWrite(key)
+    }
+    for (const key of [...this.expiry.keys()]) {
+      this.clearExpiry(key)
+    }
+    if (!this.memoryOnly) {
       for (const key of this.inMemStorage.keys()) {
-        localStorageDelete(key)
+        this.deletePersisted(key)
       }
     }
     this.inMemStorage.clear()
-    if (this.broadcastChannel) {
-      this.broadcastChannel.postMessage({ type: 'reset' })
-    }
+    this.payloadStats.clear()
+    this.clocks.clear()
   }
 
   get size() {
     return this.inMemStorage.size
   }
+
+  private storageFor(rootKey: string): AnyStorageAdapter {
+    return this.namespaceOptions.get(rootKey)?.storage ?? this.defaultStorage
+  }
+
+  /**
+   * Persists and broadcasts a namespace after the value at `path` changed in memory.
+   *
+   * Only the persisted paths are written; nothing is written when they did not change.
+   * Other tabs receive the changed path, or the whole namespace after a deferred write.
+   * With write-behind, the write is deferred and superseded by later changes. While the
+   * namespace is hydrated, the write is left to `hydrate`.
+   *
+   * @param paths - The changed paths, when `path` is `''` for several of them
+   */
+  private commit(
+    rootKey: string,
+    previous: unknown,
+    next: unknown,
+    path: string,
+    paths: Iterable<string> = [path]
+  ) {
+    if (this.held) {
+      const held = this.held.get(rootKey)
+      if (held) {
+        held.paths.add(path)
+      } else {
+        this.held.set(rootKey, { previous, paths: new Set([path]) })
+      }
+      return
+    }
+    if (this.memoryOnly) {
+      this.broadcast(rootKey, next, path, this.stamp(rootKey, path))
+      return
+    }
+    this.refreshExpiry(rootKey, previous, next)
+
+    const persist = this.namespaceOptions.get(rootKey)?.persist
+    let value = next
+    if (persist) {
+      value = partializePersisted(next, persist)
+      if (previous !== undefined && isEqual(partializePersisted(previous, persist), value)) return
+    }
+    const clock = this.stamp(rootKey, path)
+    this.markWritten(rootKey, paths)
+    if (this.hydrating.has(rootKey)) {
+      this.broadcast(rootKey, value, path, clock)
+      return
+    }
+
+    const writeBehind = this.namespaceOptions.get(rootKey)?.writeBehind
+    if (writeBehind) {
+      const pending = this.pendingWrites.get(rootKey)
+      if (pending && writeBehind.strategy === 'idle') {
+        pending.value = value
+        pending.clock = clock
+        return
+      }
+      pending?.cancel()
+      this.pendingWrites.set(rootKey, {
+        value,
+        clock,
+        cancel: scheduleWrite(writeBehind, () => this.flush(rootKey))
+      })
+      return
+    }
+
+    this.writePersisted(rootKey, value)
+    this.broadcast(rootKey, value, path, clock)
+  }
+
+  /**
+   * Persists and broadcasts the value of a namespace at `path` with a new clock, after it won
+   * against an older change from another tab, so that every tab and the storage agree on it.
+   */
+  private reassert(rootKey: string, path: string) {
+    const held = this.held?.get(rootKey)
+    if (held) {
+      held.paths.add(path)
+      return
+    }
+    // a deferred write also carries the changes of other paths
+    const changed = this.pendingWrites.has(rootKey) ? '' : path
+    this.cancelPendingWrite(rootKey)
+    const clock = this.stamp(rootKey, changed)
+    const next = this.inMemStorage.get(rootKey)
+    if (this.memoryOnly) {
+      this.broadcast(rootKey, next, changed, clock)
+      return
+    }
+    const persist = this.namespaceOptions.get(rootKey)?.persist
+    const value = persist && next !== undefined ? partializePersisted(next, persist) : next
+    // written by `hydrate` once it completes
+    if (!this.hydrating.has(rootKey)) {
+      if (value === undefined) {
+        this.deletePersisted(rootKey)
+      } else {
+        this.writePersisted(rootKey, value)
+      }
+    }
+    this.broadcast(rootKey, value, changed, clock)
+  }
+
+  /**
+   * Ticks the clock for a local change and records it.
+   *
+   * The clock never runs behind wall time, so that a new tab, which has not seen the
+   * changes of other tabs yet, does not lose its first changes.
+   */
+  private stamp(rootKey: string, path: string): LogicalClock {
+    this.clock = Math.max(this.clock + 1, Date.now())
+    const clock = { time: this.clock, tab: this.tabId }
+    const merge = this.namespaceOptions.get(rootKey)?.merge ?? 'lww'
+    this.record(rootKey, merge === 'lww' ? '' : path, clock)
+    return clock
+  }
+
+  /** Records the clock of a change seen from another tab or from storage. */
+  private observe(rootKey: string, path: string, clock: LogicalClock) {
+    this.clock = Math.max(this.clock, clock.time)
+    this.record(rootKey, path, clock)
+  }
+
+  private record(rootKey: string, path: string, clock: LogicalClock) {
+    let clocks = this.clocks.get(rootKey)
+    if (!clocks) {
+      clocks = new Map()
+      this.clocks.set(rootKey, clocks)
+    }
+    recordClock(clocks, path, clock)
+  }
+
+  /** The clock of the last change of a namespace. */
+  private latestClock(rootKey: string): LogicalClock | undefined {
+    return newestOverlapping(this.clocks.get(rootKey) ?? new Map(), '')
+  }
+
+  /** Restarts the expiry clocks of a namespace affected by a change. */
+  private refreshExpiry(rootKey: string, previous: unknown, next: unknown) {
+    const ttl = this.namespaceOptions.get(rootKey)?.ttl
+    if (!ttl) return
+    const meta = this.expiry.get(rootKey) ?? {}
+    this.expiry.set(rootKey, refreshExpiry(meta, ttl, previous, next, Date.now()))
+    this.scheduleExpiry(rootKey)
+  }
+
+  /** Arms a timer for the earliest expiry of a namespace. */
+  private scheduleExpiry(rootKey: string) {
+    clearTimeout(this.expiryTimers.get(rootKey))
+    this.expiryTimers.delete(rootKey)
+
+    const at = nextExpiry(this.expiry.get(rootKey) ?? {})
+    if (at === undefined) return
+    // setTimeout overflows past ~24.8 days; firing early just re-arms the timer
+    const delay = Math.min(Math.max(0, at - Date.now()), 2 ** 31 - 1)
+    this.expiryTimers.set(
+      rootKey,
+      setTimeout(() => this.expire(rootKey), delay)
+    )
+  }
+
+  private clearExpiry(rootKey: string) {
+    clearTimeout(this.expiryTimers.get(rootKey))
+    this.expiryTimers.delete(rootKey)
+    this.expiry.delete(rootKey)
+  }
+
+  /** Drops expired timestamps of a namespace and resets the expired values. */
+  private expire(rootKey: string) {
+    this.expiryTimers.delete(rootKey)
+    const meta = this.expiry.get(rootKey)
+    if (!meta) return
+
+    const now = Date.now()
+    const expired: string[] = []
+    if (meta.expiresAt !== undefined && meta.expiresAt <= now) {
+      expired.push('')
+      this.expiry.set(rootKey, {})
+    } else {
+      const pathExpiresAt: Record<string, number> = {}
+      for (const [path, expiresAt] of Object.entries(meta.pathExpiresAt ?? {})) {
+        if (expiresAt <= now) {
+          expired.push(path)
+        } else {
+          pathExpiresAt[path] = expiresAt
+        }
+      }
+      this.expiry.set(rootKey, {
+        expiresAt: meta.expiresAt,
+        pathExpiresAt: Object.keys(pathExpiresAt).length > 0 ? pathExpiresAt : undefined
+      })
+    }
+
+    const onExpire = this.namespaceOptions.get(rootKey)?.onExpire
+    for (const path of expired) {
+      onExpire?.(path)
+    }
+    this.scheduleExpiry(rootKey)
+  }
+
+  /** Drops a namespace from memory, with its deferred write and expiry timers. */
+  private discard(rootKey: string) {
+    this.markWritten(rootKey, [''])
+    this.inMemStorage.delete(rootKey)
+    this.cancelPendingWrite(rootKey)
+    this.clearExpiry(rootKey)
+    this.payloadStats.delete(rootKey)
+  }
+
+  private cancelPendingWrite(rootKey: string) {
+    this.pendingWrites.get(rootKey)?.cancel()
+    this.pendingWrites.delete(rootKey)
+  }
+
+  /**
+   * Posts the value at `path` of a namespace to other tabs when it is synchronized.
+   *
+   * @param value - The namespace value (only its persisted paths for persisted namespaces)
+   */
+  private broadcast(rootKey: string, value: unknown, path: string, clock: LogicalClock) {
+    if (!this.transport || !this.synced(rootKey)) return
+    const changed = getNestedValue(value, path)
+    if (changed === undefined) {
+      this.transport.post({ type: 'delete', key: rootKey, path, clock })
+      return
+    }
+    try {
+      const payload = this.serializerFor(rootKey).stringify(changed)
+      this.transport.post({ type: 'set', key: rootKey, path, payload, clock })
+    } catch (e) {
+      this.report('serialization', rootKey, 'broadcast', e)
+    }
+  }
+
+  private synced(rootKey: string): boolean {
+    const { sync = this.memoryOnly ? false : 'tabs' } = this.namespaceOptions.get(rootKey) ?? {}
+    return sync === 'tabs'
+  }
+
+  private serializerFor(rootKey: string): Serializer {
+    return this.namespaceOptions.get(rootKey)?.serializer ?? jsonSerializer
+  }
+
+  /**
+   * Parses a stored payload and migrates it to the namespace's current version.
+   * Corrupt payloads and failed migrations are reported and yield undefined.
+   *
+   * @returns The value and the clock of the change that wrote it, if persisted
+   */
+  private decode(
+    rootKey: string,
+    item: string | undefined
+  ): { value: unknown; clock?: LogicalClock } {
+    if (!item) return { value: undefined }
+    try {
+      const compression = this.namespaceOptions.get(rootKey)?.compression
+      const { text, compressed } = decompressPayload(item, compression)
+      this.payloadStats.set(rootKey, {
+        rawSize: text.length,
+        storedSize: item.length,
+        compressed
+      })
+      const { value: stored, meta } = unwrapPersisted(this.serializerFor(rootKey).parse(text))
+      const { value, meta: expiry } = dropExpired(stored, meta, Date.now())
+      this.expiry.set(rootKey, expiry)
+      this.scheduleExpiry(rootKey)
+      if (value === undefined) return { value: undefined }
+
+      const options = this.namespaceOptions.get(rootKey)
+      if (!options) return { value, clock: meta.clock }
+      const migrated = migratePersisted(value, meta.version ?? 0, options)
+      if (!options.persist || migrated === undefined) return { value: migrated, clock: meta.clock }
+      // drop paths that are no longer persisted so they reset to defaults
+      return { value: partializePersisted(migrated, options.persist), clock: meta.clock }
+    } catch (e) {
+      this.report('parse', rootKey, 'read', e)
+      return { value: undefined }
+    }
+  }
+
+  /** Serializes a value together with the namespace's metadata, compressing it if configured. */
+  private encode(rootKey: string, value: unknown): string {
+    const { version, compression, merge } = this.namespaceOptions.get(rootKey) ?? {}
+    const { expiresAt, pathExpiresAt } = this.expiry.get(rootKey) ?? {}
+    // clocks are only persisted when a merge strategy is chosen, keeping other payloads plain
+    const clock = merge ? this.latestClock(rootKey) : undefined
+    const text = this.serializerFor(rootKey).stringify(
+      wrapPersisted(value, { version, expiresAt, pathExpiresAt, clock })
+    )
+    const payload = compression ? compressPayload(text, compression) : text
+    this.payloadStats.set(rootKey, {
+      rawSize: text.length,
+      storedSize: payload.length,
+      compressed: payload !== text
+    })
+    return payload
+  }
+
+  /** Records the paths changed while a namespace is hydrated, see `hydrate`. */
+  private markWritten(rootKey: string, paths: Iterable<string>) {
+    const written = this.hydrating.get(rootKey)
+    if (!written) return
+    for (const path of paths) written.add(path)
+  }
+
+  /**
+   * Read a namespace from its storage; undefined when missing or on error.
+   * Async storages are only read through `hydrate`.
+   */
+  private readPersisted(rootKey: string): unknown {
+    if (this.memoryOnly) return undefined
+    const storage = this.storageFor(rootKey)
+    if (storage.async) return undefined
+    let item: string | undefined
+    try {
+      item = storage.get(rootKey)
+    } catch (e) {
+      this.reportFailure(rootKey, 'read', e)
+      return undefined
+    }
+    const { value, clock } = this.decode(rootKey, item)
+    if (clock) this.observe(rootKey, '', clock)
+    return value
+  }
+
+  /** Write a namespace to its storage, evicting others when it is full (see `eviction`). */
+  private writePersisted(rootKey: string, value: unknown) {
+    let payload: string
+    try {
+      payload = this.encode(rootKey, value)
+    } catch (e) {
+      this.report('serialization', rootKey, 'write', e)
+      return
+    }
+
+    const storage = this.storageFor(rootKey)
+    const evicted = new Set<string>()
+    this.lastWritten.set(rootKey, ++this.writeSeq)
+    for (;;) {
+      try {
+        const result = storage.set(rootKey, payload)
+        result?.catch(e => this.reportFailure(rootKey, 'write', e))
+        return
+      } catch (e) {
+        if (isQuotaExceeded(e) && !storage.async && this.evictFor(rootKey, storage, evicted)) {
+          continue
+        }
+        this.reportFailure(rootKey, 'write', e)
+        return
+      }
+    }
+  }
+
+  /**
+   * Drops the least recently written namespace allowed by the eviction policy of `rootKey`.
+   *
+   * @returns Whether a namespace was dropped
+   */
+  private evictFor(rootKey: string, storage: StorageAdapter, evicted: Set<string>): boolean {
+    const policy = this.namespaceOptions.get(rootKey)?.eviction
+    if (!policy) return false
+
+    let candidates: string[]
+    try {
+      candidates = storage.list()
+    } catch {
+      return false
+    }
+    candidates = candidates.filter(
+      key =>
+        key !== rootKey &&
+        !evicted.has(key) &&
+        (policy === 'lru' || this.namespaceOptions.get(key)?.evictable === true)
+    )
+    if (candidates.length === 0) return false
+
+    const victim = candidates.reduce((oldest, key) =>
+      (this.lastWritten.get(key) ?? 0) < (this.lastWritten.get(oldest) ?? 0) ? key : oldest
+    )
+    try {
+      storage.delete(victim)
+    } catch (e) {
+      this.reportFailure(victim, 'delete', e)
+      return false
+    }
+    this.lastWritten.delete(victim)
+    evicted.add(victim)
+    return true
+  }
+
+  /** Delete a namespace from its storage. */
+  private deletePersisted(rootKey: string) {
+    this.lastWritten.delete(rootKey)
+    try {
+      const result = this.storageFor(rootKey).delete(rootKey)
+      result?.catch(e => this.reportFailure(rootKey, 'delete', e))
+    } catch (e) {
+      this.reportFailure(rootKey, 'delete', e)
+    }
+  }
+
+  /** Reports an error thrown by a storage adapter. */
+  private reportFailure(rootKey: string, operation: StorageOperation, cause: unknown) {
+    let kind: StorageErrorKind = 'unavailable'
+    if (cause instanceof DecryptionError) kind = 'decryption'
+    else if (isQuotaExceeded(cause)) kind = 'quota'
+    this.report(kind, rootKey, operation, cause)
+  }
+
+  private report(
+    kind: StorageErrorKind,
+    rootKey: string,
+    operation: StorageOperation,
+    cause: unknown
+  ) {
+    const error = new StorageError(kind, rootKey, operation, cause)
+    const onStorageError = this.namespaceOptions.get(rootKey)?.onStorageError
+    if (onStorageError) {
+      onStorageError(error)
+    } else {
+      console.error(error.message, cause)
+    }
+  }
 }
 
 /**
@@ -0,0 +1,216 @@
+import { useSyncExternalStore } from 'react'
+import { createTabId } from './clock'
+import {
+  getDefaultTransport,
+  type LeaderMessage,
+  type SyncTransport,
+  type TransportMessage
+} from './transport'
+
+export { createLeaderElection, electLeader, type LeaderElection, type LeaderElectionOptions }
+
+/**
+ * The state of a tab in a leader election.
+ */
+type LeaderElection = {
+  /** Whether this tab is the leader. */
+  readonly isLeader: boolean
+  /** Subscribe to whether this tab is the leader. Re-renders when it changes. */
+  useIsLeader: () => boolean
+  /** Step down, handing leadership to another tab if there is one. */
+  resign: () => void
+  /** Leave the election, resigning first if this tab is the leader. */
+  close: () => void
+}
+
+type LeaderElectionOptions = {
+  /** Transport to the other participants, e.g. the one of a container (default: cross-tab sync) */
+  transport?: SyncTransport
+  /** How often the leader announces itself, in milliseconds (default: 1000) */
+  heartbeatInterval?: number
+  /** How long without a heartbeat before the leader is considered gone (default: 3 heartbeats) */
+  timeout?: number
+  /** Called when this tab becomes the leader */
+  onBecomeLeader?: () => void
+  /** Called when this tab stops being the leader */
+  onResign?: () => void
+}
+
+/**
+ * Elects a single leader among the tabs of the same origin taking part in the election `name`,
+ * over the same transport as cross-tab store sync, or over the given `transport`.
+ *
+ * The leader sends heartbeats; when they stop (e.g. the tab was closed), the remaining tabs
+ * elect a new leader. The leader resigns when its page is unloaded. Run singleton side effects
+ * (polling, WebSocket connections) in the leader and write their results to a store: the other
+ * tabs receive them through store sync. On SSR, no tab is the leader unless a transport is given.
+ *
+ * @param name - Name of the election (default: `default`)
+ * @param options - Election options
+ * @returns The election state of this tab
+ * @example
+ * const poller = createLeaderElection('uptime-poller', {
+ *   onBecomeLeader: () => startPolling(uptimeStore),
+ *   onResign: () => stopPolling()
+ * })
+ *
+ * function Status() {
+ *   const isLeader = poller.useIsLeader()
+ *   return <span>{isLeader ? 'Polling in this tab' : 'Polling in another tab'}</span>
+ * }
+ */
+function createLeaderElection(
+  name = 'default',
+  options: LeaderElectionOptions = {}
+): LeaderElection {
+  const election = electLeader(options.transport ?? getDefaultTransport(), name, options)
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', event => {
+      // a page kept in the back/forward cache resumes leading, or yields, when it is restored
+      if (!event.persisted) election.close()
+    })
+  }
+  return election
+}
+
+/**
+ * Takes part in a leader election over a transport; see `createLeaderElection`.
+ *
+ * Tabs that find no leader claim leadership and wait for one heartbeat interval; the claimant
+ * with the lowest tab id wins. A leader hearing another leader keeps leadership only if its
+ * tab id is lower.
+ */
+function electLeader(
+  transport: SyncTransport | undefined,
+  name: string,
+  {
+    heartbeatInterval = 1000,
+    timeout = heartbeatInterval * 3,
+    onBecomeLeader,
+    onResign
+  }: LeaderElectionOptions
+): LeaderElection {
+  const key = `__juststore_leader:${name}`
+  const tab = createTabId()
+  const listeners = new Set<() => void>()
+  let isLeader = false
+  /** When another tab last announced itself as the leader */
+  let lastHeartbeat = 0
+  let claim: { candidates: Set<string>; timer: ReturnType<typeof setTimeout> } | undefined
+
+  const post = (event: LeaderMessage['event']) => {
+    transport?.post({ type: 'leader', key, event, tab })
+  }
+
+  const setLeader = (value: boolean) => {
+    if (isLeader === value) return
+    isLeader = value
+    if (value) {
+      post('heartbeat')
+      onBecomeLeader?.()
+    } else {
+      onResign?.()
+    }
+    listeners.forEach(listener => {
+      listener()
+    })
+  }
+
+  const decide = () => {
+    if (!claim) return
+    const winner = [...claim.candidates].sort()[0]
+    claim = undefined
+    if (winner === tab) {
+      setLeader(true)
+    } else {
+      // give the winner time to announce itself
+      lastHeartbeat = Date.now()
+    }
+  }
+
+  const startClaim = () => {
+    if (claim || isLeader) return claim
+    claim = { candidates: new Set([tab]), timer: setTimeout(decide, heartbeatInterval) }
+    post('claim')
+    return claim
+  }
+
+  const cancelClaim = () => {
+    if (!claim) return
+    clearTimeout(claim.timer)
+    claim = undefined
+  }
+
+  const receive = (message: TransportMessage) => {
+    if (message.type !== 'leader' || message.tab === tab) return
+    switch (message.event) {
+      case 'heartbeat':
+        if (isLeader) {
+          if (message.tab > tab) {
+            // keep leadership, the other leader resigns when it hears us
+            post('heartbeat')
+            return
+          }
+          setLeader(false)
+        }
+        lastHeartbeat = Date.now()
+        cancelClaim()
+        break
+      case 'claim':
+        if (isLeader) {
+          post('heartbeat')
+        } else if (claim || Date.now() - lastHeartbeat > timeout) {
+          startClaim()?.candidates.add(message.tab)
+        }
+        break
+      case 'resign':
+        lastHeartbeat = 0
+        startClaim()
+        break
+    }
+  }
+
+  const unsubscribe = transport?.subscribe(key, receive)
+  const interval = transport
+    ? setInterval(() => {
+        if (isLeader) {
+          post('heartbeat')
+        } else if (Date.now() - lastHeartbeat > timeout) {
+          startClaim()
+        }
+      }, heartbeatInterval)
+    : undefined
+  if (transport) startClaim()
+
+  const resign = () => {
+    if (!isLeader) return
+    // let another tab take over before claiming again
+    lastHeartbeat = Date.now()
+    setLeader(false)
+    post('resign')
+  }
+
+  return {
+    get isLeader() {
+      return isLeader
+    },
+    useIsLeader: () =>
+      useSyncExternalStore(
+        listener => {
+          listeners.add(listener)
+          return () => {
+            listeners.delete(listener)
+          }
+        },
+        () => isLeader,
+        () => false
+      ),
+    resign,
+    close: () => {
+      resign()
+      cancelClaim()
+      clearInterval(interval)
+      unsubscribe?.()
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { useId } from 'react'
+import type { StoreContainer } from './container'
 import { createRootNode } from './node'
+import { useStoreContainer } from './provider'
 import type { FieldValues } from './path'
 import { createStoreRoot } from './root'
 import type { State, ValueState } from './types'
@@ -23,7 +25,8 @@ type MemoryStore<T extends FieldValues> = ValueState<T> & {
  *
  * Unlike `createStore`, this store is not persisted to localStorage and is
  * unique to each component instance. Useful for complex local state that
- * benefits from the store's path-based API without persistence.
+ * benefits from the store's path-based API without persistence. It lives in the
+ * container of the closest `StoreProvider`.
  *
  * @param defaultValue - Initial state shape
  * @returns A proxy providing dynamic path access to the store
@@ -59,7 +62,8 @@ function useMemoryStore<T extends FieldValues>(defaultValue: T): MemoryStore<T>
   const memoryStoreId = useId()
   const namespace = `memory:${memoryStoreId}`
   const storeApi = createStoreRoot(namespace, defaultValue, {
-    memoryOnly: true
+    memoryOnly: true,
+    container: useStoreContainer()
   })
 
   return createRootNode(storeApi) as unknown as MemoryStore<T>
@@ -67,10 +71,12 @@ function useMemoryStore<T extends FieldValues>(defaultValue: T): MemoryStore<T>
 
 function createMemoryStore<T extends FieldValues>(
   namespace: string,
-  defaultValue: T
+  defaultValue: T,
+  container?: StoreContainer
 ): MemoryStore<T> {
   const storeApi = createStoreRoot(namespace, defaultValue, {
-    memoryOnly: true
+    memoryOnly: true,
+    container
   })
   return createRootNode(storeApi) as unknown as MemoryStore<T>
 }
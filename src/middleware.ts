@@ -0,0 +1,86 @@
+import { isEqual } from './impl'
+
+export { addMiddleware, runMiddleware, type StoreMiddleware, type StoreWrite }
+
+/** A write to a store, passed to middleware. */
+type StoreWrite = {
+  /** Namespace of the store */
+  namespace: string
+  /** Path of the written value, `''` for the whole namespace */
+  path: string
+  /** The value before the write */
+  prev: unknown
+  /** The value about to be written, or that was written */
+  next: unknown
+}
+
+/**
+ * Intercepts the writes of stores: `set`, `reset`, `rename` and array mutations.
+ *
+ * @example
+ * const clampVolume: StoreMiddleware = {
+ *   beforeWrite: ({ path, next }) => (path === 'volume' ? Math.min(Math.max(next as number, 0), 100) : next),
+ *   afterWrite: ({ namespace, path, prev, next }) => console.debug(namespace, path, prev, '->', next)
+ * }
+ */
+type StoreMiddleware = {
+  /**
+   * Returns the value to write instead of `next`. Returning `prev` rejects the write, so does
+   * throwing, in which case the error reaches the caller.
+   */
+  beforeWrite?: (write: StoreWrite) => unknown
+  /** Runs after the write was applied, e.g. for logging or side effects. */
+  afterWrite?: (write: StoreWrite) => void
+}
+
+const globalMiddleware: StoreMiddleware[] = []
+
+/**
+ * Adds middleware intercepting the writes of every store, before the middleware of the store.
+ *
+ * @param middleware - The middleware
+ * @returns A function removing the middleware
+ * @example
+ * const removeLogger = addMiddleware({
+ *   afterWrite: ({ namespace, path, next }) => console.debug(`${namespace}.${path}`, next)
+ * })
+ */
+function addMiddleware(middleware: StoreMiddleware): () => void {
+  globalMiddleware.push(middleware)
+  return () => {
+    const index = globalMiddleware.indexOf(middleware)
+    if (index !== -1) globalMiddleware.splice(index, 1)
+  }
+}
+
+/**
+ * Passes a write through the global middleware and the middleware of its store, then commits
+ * it unless it was rejected.
+ *
+ * @param middleware - Middleware of the store
+ * @param write - The write, `next` being the requested value
+ * @param commit - Applies the value to write
+ */
+function runMiddleware(
+  middleware: readonly StoreMiddleware[],
+  write: StoreWrite,
+  commit: (value: unknown) => void
+) {
+  if (globalMiddleware.length === 0 && middleware.length === 0) {
+    commit(write.next)
+    return
+  }
+  // copied so that middleware added or removed by middleware applies from the next write
+  const pipeline = [...globalMiddleware, ...middleware]
+  let next = write.next
+  for (const { beforeWrite } of pipeline) {
+    if (beforeWrite) next = beforeWrite({ ...write, next })
+  }
+  // rejected, or nothing to write
+  if (isEqual(next, write.prev)) return
+  commit(next)
+  const written = { ...write, next }
+  for (const { afterWrite } of pipeline) {
+    afterWrite?.(written)
+  }
+}
@@ -76,8 +76,9 @@ function createNode<T extends FieldValues>(
       }
       if (prop === 'useState') {
         return (_target._useState ??= () => {
-          const value = storeApi.use(path)
-          return [from(value), (next: any) => storeApi.set(path, to(next))]
+          // the setter writes to the store this hook reads, see `StoreProvider`
+          const [value, setValue] = storeApi.useState(path)
+          return [from(value), (next: any) => setValue(to(next))]
         })
       }
       if (prop === 'value') {
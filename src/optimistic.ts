@@ -0,0 +1,132 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import { isEqual } from './impl'
+import type { FieldPath, FieldValues } from './path'
+import type { OptimisticTransaction, StoreRoot } from './types'
+
+export { createOptimisticUpdates }
+
+/** A path written by an optimistic update. */
+type OptimisticWrite = {
+  path: string
+  /** The value before the update, restored if it fails */
+  previous: unknown
+  /** The value last written by the update */
+  applied: unknown
+  /** Whether the value was changed by something else since, in which case it is kept */
+  overwritten: boolean
+  unsubscribe: () => void
+}
+
+/**
+ * Creates the optimistic update methods of a store.
+ *
+ * @param storeApi - The store
+ * @param batch - Batches the rollback of a failed update, see `batch`
+ * @returns `optimistic`, `isPending` and `usePending`
+ */
+function createOptimisticUpdates<T extends FieldValues>(
+  storeApi: Pick<StoreRoot<T>, 'set' | 'subscribe' | 'value'>,
+  batch: (fn: () => void) => void
+): Pick<StoreRoot<T>, 'isPending' | 'optimistic' | 'usePending'> {
+  /** Number of pending updates by written path. */
+  const pending = new Map<string, number>()
+  const listeners = new Set<() => void>()
+
+  const setPending = (path: string, delta: number) => {
+    const count = (pending.get(path) ?? 0) + delta
+    if (count > 0) {
+      pending.set(path, count)
+    } else {
+      pending.delete(path)
+    }
+    listeners.forEach(listener => {
+      listener()
+    })
+  }
+
+  const isPending = (path?: string) => {
+    if (!path) return pending.size > 0
+    for (const written of pending.keys()) {
+      // a write to a parent or a child changes the value at path
+      if (written === path || written.startsWith(`${path}.`) || path.startsWith(`${written}.`)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  const subscribePending = (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const optimistic = async <R>(fn: (tx: OptimisticTransaction<T>) => Promise<R>): Promise<R> => {
+    const writes = new Map<string, OptimisticWrite>()
+    let writing = false
+    let settled = false
+
+    const tx: OptimisticTransaction<T> = {
+      set: (path, value) => {
+        // a late write would never be confirmed nor reverted, and would stay pending
+        if (settled) throw new Error('Optimistic update already settled')
+        const current = storeApi.value(path)
+        const next =
+          typeof value === 'function' ? (value as (prev: unknown) => unknown)(current) : value
+        let write = writes.get(path)
+        if (!write) {
+          const added: OptimisticWrite = {
+            path,
+            previous: current,
+            applied: next,
+            overwritten: false,
+            unsubscribe: () => {}
+          }
+          added.unsubscribe = storeApi.subscribe(path, () => {
+            // notifications deferred by a batch arrive after the write
+            if (!writing && !isEqual(storeApi.value(path), added.applied)) {
+              added.overwritten = true
+            }
+          })
+          writes.set(path, added)
+          setPending(path, 1)
+          write = added
+        }
+        write.applied = next
+        writing = true
+        try {
+          storeApi.set(path, next as never)
+        } finally {
+          writing = false
+        }
+      }
+    }
+
+    try {
+      return await fn(tx)
+    } catch (error) {
+      batch(() => {
+        for (const write of [...writes.values()].toReversed()) {
+          if (!write.overwritten) storeApi.set(write.path as FieldPath<T>, write.previous as never)
+        }
+      })
+      throw error
+    } finally {
+      settled = true
+      for (const write of writes.values()) {
+        write.unsubscribe()
+        setPending(write.path, -1)
+      }
+    }
+  }
+
+  return {
+    optimistic,
+    isPending,
+    usePending: path => {
+      const getPending = useCallback(() => isPending(path), [path])
+      return useSyncExternalStore(subscribePending, getPending, getPending)
+    }
+  }
+}
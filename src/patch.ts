@@ -0,0 +1,214 @@
+import { isEqual, joinChildKey } from './impl'
+import type { FieldPath, FieldValues } from './path'
+import type { StoreRoot } from './types'
+
+export {
+  applyPatches,
+  fromJsonPointer,
+  type JsonPatchOperation,
+  type PatchListener,
+  renamePatches,
+  toJsonPointer,
+  writePatches
+}
+
+/** An RFC 6902 JSON Patch operation, its paths being JSON Pointers into the store value. */
+type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string }
+
+/**
+ * Receives the changes of a store as JSON Patch operations, together with the operations
+ * undoing them, in the order to apply them.
+ */
+type PatchListener = (patches: JsonPatchOperation[], inversePatches: JsonPatchOperation[]) => void
+
+/**
+ * Converts a store path to a JSON Pointer, escaping `~` and `/` in keys.
+ *
+ * @param path - Dot-separated store path, `''` for the whole value
+ * @returns The JSON Pointer
+ * @example
+ * toJsonPointer('files.a/b~c') // '/files/a~1b~0c'
+ */
+function toJsonPointer(path: string): string {
+  if (!path) return ''
+  return path
+    .split('.')
+    .map(key => `/${key.replaceAll('~', '~0').replaceAll('/', '~1')}`)
+    .join('')
+}
+
+/**
+ * Converts a JSON Pointer to a store path.
+ *
+ * @param pointer - The JSON Pointer, `''` for the whole value
+ * @returns The dot-separated store path
+ * @throws If the pointer is malformed, or has a key with a dot that store paths cannot address
+ * @example
+ * fromJsonPointer('/files/a~1b~0c') // 'files.a/b~c'
+ */
+function fromJsonPointer(pointer: string): string {
+  if (!pointer) return ''
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer "${pointer}"`)
+  const keys = pointer
+    .slice(1)
+    .split('/')
+    .map(key => key.replaceAll('~1', '/').replaceAll('~0', '~'))
+  if (keys.some(key => key.includes('.'))) {
+    throw new Error(`JSON Pointer "${pointer}" has a key with a dot`)
+  }
+  return keys.join('.')
+}
+
+/**
+ * The operation writing a value at a path, and the one undoing it; `undefined` is a removal.
+ *
+ * @param path - Store path, relative to the namespace
+ * @param prev - The value before the write
+ * @param next - The value written
+ */
+function writePatches(
+  path: string,
+  prev: unknown,
+  next: unknown
+): [JsonPatchOperation, JsonPatchOperation] {
+  const pointer = toJsonPointer(path)
+  if (prev === undefined) {
+    return [
+      { op: 'add', path: pointer, value: next },
+      { op: 'remove', path: pointer }
+    ]
+  }
+  if (next === undefined) {
+    return [
+      { op: 'remove', path: pointer },
+      { op: 'add', path: pointer, value: prev }
+    ]
+  }
+  return [
+    { op: 'replace', path: pointer, value: next },
+    { op: 'replace', path: pointer, value: prev }
+  ]
+}
+
+/**
+ * The operation renaming a key of the object at a path, and the one undoing it.
+ *
+ * @param path - Store path of the object, relative to the namespace
+ * @param oldKey - The renamed key
+ * @param newKey - The new name of the key
+ */
+function renamePatches(
+  path: string,
+  oldKey: string,
+  newKey: string
+): [JsonPatchOperation, JsonPatchOperation] {
+  const from = toJsonPointer(joinChildKey(path, oldKey))
+  const to = toJsonPointer(joinChildKey(path, newKey))
+  return [
+    { op: 'move', from, path: to },
+    { op: 'move', from: to, path: from }
+  ]
+}
+
+/**
+ * Applies JSON Patch operations to a store in one batch. Listeners are notified as for `set`;
+ * a move between keys of the same object is a `rename`, keeping the key order.
+ *
+ * When an operation fails, including a failed `test`, the store is restored to its value before
+ * the first operation and the error is thrown.
+ *
+ * @param storeApi - The store
+ * @param batch - Batches the operations, see `batch`
+ * @param patches - The operations to apply, in order
+ */
+function applyPatches<T extends FieldValues>(
+  storeApi: Pick<StoreRoot<T>, 'rename' | 'set' | 'value'>,
+  batch: (fn: () => void) => void,
+  patches: readonly JsonPatchOperation[]
+) {
+  const read = (path: string): unknown => storeApi.value(path as FieldPath<T>)
+  const write = (path: string, value: unknown) => storeApi.set(path as FieldPath<T>, value as never)
+
+  const add = (pointer: string, value: unknown) => {
+    const path = fromJsonPointer(pointer)
+    const { parent, key } = splitPath(path)
+    const array = path ? read(parent) : undefined
+    if (!Array.isArray(array)) {
+      write(path, value)
+      return
+    }
+    if (key !== '-' && !/^(0|[1-9]\d*)$/.test(key)) {
+      throw new Error(`Invalid array index in JSON Pointer "${pointer}"`)
+    }
+    // adding to an array inserts, `-` appends
+    const index = key === '-' ? array.length : Number(key)
+    if (index > array.length) throw new Error(`Array index out of bounds in "${pointer}"`)
+    write(parent, array.toSpliced(index, 0, value))
+  }
+
+  const move = (fromPointer: string, pointer: string) => {
+    const fromPath = fromJsonPointer(fromPointer)
+    const from = splitPath(fromPath)
+    const to = splitPath(fromJsonPointer(pointer))
+    const object = read(from.parent)
+    if (
+      from.parent === to.parent &&
+      object !== null &&
+      typeof object === 'object' &&
+      !Array.isArray(object)
+    ) {
+      storeApi.rename(from.parent as FieldPath<T>, from.key, to.key)
+      return
+    }
+    const value = read(fromPath)
+    write(fromPath, undefined)
+    add(pointer, value)
+  }
+
+  const apply = (patch: JsonPatchOperation) => {
+    switch (patch.op) {
+      case 'add':
+        add(patch.path, patch.value)
+        break
+      case 'remove':
+        write(fromJsonPointer(patch.path), undefined)
+        break
+      case 'replace':
+        write(fromJsonPointer(patch.path), patch.value)
+        break
+      case 'move':
+        if (patch.from !== patch.path) move(patch.from, patch.path)
+        break
+      case 'copy':
+        add(patch.path, read(fromJsonPointer(patch.from)))
+        break
+      case 'test':
+        if (!isEqual(read(fromJsonPointer(patch.path)), patch.value)) {
+          throw new Error(`Test of JSON Pointer "${patch.path}" failed`)
+        }
+        break
+      default:
+        throw new Error(`Unknown JSON Patch operation "${(patch as { op: string }).op}"`)
+    }
+  }
+
+  const before = read('')
+  batch(() => {
+    try {
+      patches.forEach(apply)
+    } catch (e) {
+      write('', before)
+      throw e
+    }
+  })
+}
+
+/** Splits a store path into the path of its parent and its last key. */
+function splitPath(path: string): { parent: string; key: string } {
+  const index = path.lastIndexOf('.')
+  if (index === -1) return { parent: '', key: path }
+  return { parent: path.slice(0, index), key: path.slice(index + 1) }
+}
@@ -0,0 +1,209 @@
+import type { LogicalClock } from './clock'
+import type { ExpiryMeta } from './expiry'
+import { getNestedValue, setNestedValue } from './impl'
+import type { FieldPath, FieldValues } from './path'
+
+export {
+  migratePersisted,
+  partializePersisted,
+  type PersistedEnvelope,
+  type PersistedMeta,
+  type PersistOptions,
+  type PersistPaths,
+  restoreTransient,
+  scheduleWrite,
+  type StoreMigrations,
+  unwrapPersisted,
+  type WriteBehindOptions,
+  wrapPersisted
+}
+
+/**
+ * Migration functions keyed by the version they migrate *to*.
+ *
+ * @example
+ * // v1 -> v2 renamed `name` to `displayName`
+ * { 2: state => ({ ...(state as V1), displayName: (state as V1).name }) }
+ */
+type StoreMigrations = Record<number, (state: unknown) => unknown>
+
+/**
+ * Selects which paths of a namespace are persisted and synchronized across tabs.
+ *
+ * Paths left out still behave normally in memory and reset to their defaults on reload.
+ */
+type PersistOptions<T extends FieldValues = FieldValues> = {
+  /** Only persist these paths (default: everything) */
+  include?: FieldPath<T>[]
+  /** Never persist these paths, applied after `include` */
+  exclude?: FieldPath<T>[]
+}
+
+/** Untyped form of `PersistOptions` used by the storage layer. */
+type PersistPaths = {
+  include?: readonly string[]
+  exclude?: readonly string[]
+}
+
+/**
+ * Defers storage writes and cross-tab messages of a namespace.
+ *
+ * - `debounce`: write once no change happened for `delay` ms
+ * - `idle`: write when the browser is idle (`requestIdleCallback`), at most `timeout` ms later
+ */
+type WriteBehindOptions =
+  | { strategy: 'debounce'; delay: number }
+  | { strategy: 'idle'; timeout?: number }
+
+/** Metadata persisted next to a namespace payload. */
+type PersistedMeta = ExpiryMeta & {
+  /** Schema version of the payload */
+  version?: number
+  /** Clock of the change that wrote the payload, see `merge` */
+  clock?: LogicalClock
+}
+
+/** Storage format of a namespace that has metadata; plain payloads have none. */
+type PersistedEnvelope = {
+  __juststore: PersistedMeta
+  value: unknown
+}
+
+type MigrateOptions = {
+  version?: number
+  migrate?: StoreMigrations
+  onNewerVersion?: (persisted: unknown, persistedVersion: number) => unknown
+}
+
+function isEnvelope(payload: unknown): payload is PersistedEnvelope {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    !Array.isArray(payload) &&
+    Object.hasOwn(payload, '__juststore') &&
+    Object.hasOwn(payload, 'value')
+  )
+}
+
+/** Wraps a value with its metadata, or returns it as is when there is none. */
+function wrapPersisted(value: unknown, meta: PersistedMeta): unknown {
+  if (Object.values(meta).every(v => v === undefined)) return value
+  return { __juststore: meta, value } satisfies PersistedEnvelope
+}
+
+/** Splits a stored payload into value and metadata; plain payloads are treated as version 0. */
+function unwrapPersisted(payload: unknown): { value: unknown; meta: PersistedMeta } {
+  if (isEnvelope(payload)) {
+    return { value: payload.value, meta: payload.__juststore }
+  }
+  return { value: payload, meta: {} }
+}
+
+/**
+ * Brings a persisted value up to the current version.
+ *
+ * Runs every migration between the persisted and current version in order. When the
+ * persisted version is newer than the running code, `onNewerVersion` decides the value.
+ *
+ * @param value - The persisted value
+ * @param persistedVersion - The version it was written with (0 for unversioned payloads)
+ * @param options - The namespace's version options
+ * @returns The migrated value, or undefined to fall back to defaults
+ * @throws If the persisted version is newer and there is no `onNewerVersion`
+ */
+function migratePersisted(
+  value: unknown,
+  persistedVersion: number,
+  { version, migrate, onNewerVersion }: MigrateOptions
+): unknown {
+  if (version === undefined || persistedVersion === version) return value
+
+  if (persistedVersion > version) {
+    if (onNewerVersion) return onNewerVersion(value, persistedVersion)
+    throw new Error(`Persisted version ${persistedVersion} is newer than ${version}`)
+  }
+
+  let migrated = value
+  for (let v = persistedVersion + 1; v <= version; v++) {
+    const step = migrate?.[v]
+    if (step) migrated = step(migrated)
+  }
+  return migrated
+}
+
+/**
+ * Picks the persisted part of a namespace value.
+ *
+ * @param value - The full namespace value
+ * @param options - Paths to include and exclude
+ * @returns A new value containing only the persisted paths
+ */
+function partializePersisted(value: unknown, { include, exclude }: PersistPaths): unknown {
+  let result = value
+  if (include) {
+    result = {}
+    for (const path of include) {
+      const included = getNestedValue(value, path)
+      if (included !== undefined) {
+        result = setNestedValue(result, path, included)
+      }
+    }
+  }
+  for (const path of exclude ?? []) {
+    if (getNestedValue(result, path) !== undefined) {
+      result = setNestedValue(result, path, undefined)
+    }
+  }
+  return result
+}
+
+/**
+ * Merges a persisted value received from another tab into the local value,
+ * keeping the local value of every path that is not persisted.
+ *
+ * @param local - The current local namespace value
+ * @param incoming - The persisted value received from another tab
+ * @param options - Paths to include and exclude
+ * @returns The merged namespace value
+ */
+function restoreTransient(
+  local: unknown,
+  incoming: unknown,
+  { include, exclude }: PersistPaths
+): unknown {
+  let result = incoming
+  if (include) {
+    result = local
+    for (const path of include) {
+      result = copyPath(result, incoming, path)
+    }
+  }
+  for (const path of exclude ?? []) {
+    result = copyPath(result, local, path)
+  }
+  return result
+}
+
+/** Copies the value at path from source into target, deleting it when source has none. */
+function copyPath(target: unknown, source: unknown, path: string): unknown {
+  const value = getNestedValue(source, path)
+  if (value === undefined && getNestedValue(target, path) === undefined) return target
+  return setNestedValue(target, path, value)
+}
+
+/**
+ * Schedules a deferred write.
+ *
+ * @param options - The write-behind strategy
+ * @param write - Performs the write
+ * @returns A function cancelling the scheduled write
+ */
+function scheduleWrite(options: WriteBehindOptions, write: () => void): () => void {
+  if (options.strategy === 'idle' && typeof requestIdleCallback !== 'undefined') {
+    const handle = requestIdleCallback(write, { timeout: options.timeout })
+    return () => cancelIdleCallback(handle)
+  }
+  const delay = options.strategy === 'debounce' ? options.delay : 0
+  const handle = setTimeout(write, delay)
+  return () => clearTimeout(handle)
+}
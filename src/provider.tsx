@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react'
+import { activeStoreContainer, defaultContainer, type StoreContainer } from './container'
+
+export { StoreProvider, useStoreContainer }
+
+const StoreContainerContext = createContext<StoreContainer | undefined>(undefined)
+
+type StoreProviderProps = {
+  container: StoreContainer
+  children: React.ReactNode
+}
+
+/**
+ * Scopes `useMemoryStore`, `useForm`, and the stores and atoms created without a container, in its
+ * children to a container, e.g. for independent React roots on one page or for each request on
+ * the server.
+ *
+ * Hooks of those stores and atoms, and the setters they return, use the container of the
+ * provider. Their other methods, e.g. `.set` in an event handler, use the global container
+ * unless run by `runWithStoreContainer`.
+ *
+ * @param props - The props object.
+ * @param props.container - The container created with `createStoreContainer`.
+ * @param props.children - The subtree using the container.
+ */
+function StoreProvider({ container, children }: StoreProviderProps) {
+  return (
+    <StoreContainerContext.Provider value={container}>{children}</StoreContainerContext.Provider>
+  )
+}
+
+/**
+ * Returns the container of the closest `StoreProvider`, or the one of `runWithStoreContainer`,
+ * or the global container. Pass it to `createStore` or `createAtom` to create stores in the same
+ * container.
+ */
+function useStoreContainer(): StoreContainer {
+  return useContext(StoreContainerContext) ?? activeStoreContainer() ?? defaultContainer
+}
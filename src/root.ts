@@ -1,20 +1,26 @@
-import { useCallback } from 'react'
+import { useCallback, useSyncExternalStore } from 'react'
+import type { MergeStrategy } from './clock'
+import { type CompressionCodec, lzUTF16Codec } from './compression'
+import type { TTLOptions } from './expiry'
 import {
-  getNestedValue,
-  getSnapshot,
-  isRecord,
-  joinPath,
-  notifyListeners,
-  produce,
-  rename,
-  setLeaf,
-  subscribe,
-  useCompute,
-  useDebounce,
-  useObject
-} from './impl'
+  activeStoreContainer,
+  type Container,
+  containerOf,
+  defaultContainer,
+  type StoreContainer
+} from './container'
+import { getNestedValue, getStableKeys, joinPath, mergeWithDefaults } from './impl'
+import { runMiddleware, type StoreMiddleware } from './middleware'
 import { createRootNode } from './node'
+import { createOptimisticUpdates } from './optimistic'
+import { applyPatches } from './patch'
 import type { FieldPath, FieldPathValue, FieldValues } from './path'
+import type { PersistOptions, StoreMigrations, WriteBehindOptions } from './persistence'
+import { useStoreContainer } from './provider'
+import type { EvictionPolicy } from './kv_store'
+import type { Serializer } from './serializer'
+import type { AnyStorageAdapter } from './storage'
+import type { StorageError } from './storage_error'
 import type { StoreRoot, StoreSetStateValue, StoreUseComputeFn } from './types'
 
 export { createStoreRoot, type StoreOptions }
@@ -22,9 +28,93 @@ export { createStoreRoot, type StoreOptions }
 /**
  * Configuration options for store creation.
  */
-type StoreOptions = {
-  /** When true, the store only uses memory and does not persist to localStorage */
+type StoreOptions<T extends FieldValues = FieldValues> = {
+  /** When true, the store only uses memory and does not persist to storage */
   memoryOnly?: boolean
+  /** Container holding the store (default: the global container) */
+  container?: StoreContainer
+  /**
+   * Storage adapter used to persist the store (default: localStorage with the `juststore:` prefix).
+   *
+   * With an async adapter (e.g. IndexedDB) the store starts with its defaults and
+   * hydrates once the persisted value is read; see `hydrated` and `onHydrated`.
+   */
+  storage?: AnyStorageAdapter
+  /**
+   * Schema version stored next to the persisted value. Unversioned payloads count as version 0.
+   */
+  version?: number
+  /**
+   * Migrations keyed by the version they migrate to, run in order when an older version is loaded.
+   * The result is merged with the default value afterwards.
+   */
+  migrate?: StoreMigrations
+  /**
+   * Called when the persisted version is newer than `version` (e.g. after a rollback).
+   * Return the value to use, or undefined to fall back to defaults (the default behavior).
+   */
+  onNewerVersion?: (persisted: unknown, persistedVersion: number) => unknown
+  /**
+   * Paths to persist and broadcast to other tabs (default: the whole namespace).
+   * Other paths behave normally in memory and reset to their defaults on reload.
+   */
+  persist?: PersistOptions<T>
+  /**
+   * Serializer for persisted and cross-tab payloads (default: plain JSON).
+   * Use `taggedJSONSerializer` to round-trip Date, Map, Set, BigInt and RegExp.
+   */
+  serializer?: Serializer
+  /**
+   * Compresses stored payloads: `true` for the built-in LZ codec (`lzUTF16Codec`) or a custom
+   * codec. Payloads are only stored compressed when that makes them smaller, and compressed and
+   * uncompressed payloads are both read, so compression can be turned on or off at any time.
+   */
+  compression?: boolean | CompressionCodec
+  /**
+   * Defers storage writes and cross-tab messages, e.g. `{ strategy: 'debounce', delay: 300 }`
+   * or `{ strategy: 'idle' }`. Memory and listeners still update synchronously; pending writes
+   * are flushed on `pagehide`, when the page becomes hidden, and by `store.flush()`.
+   */
+  writeBehind?: WriteBehindOptions
+  /**
+   * Receives storage failures: a full storage (`quota`), values that cannot be serialized,
+   * corrupt payloads found on load (`parse`) and inaccessible storage. Default: console.error.
+   */
+  onStorageError?: (error: StorageError) => void
+  /**
+   * What to drop from the same storage when a write exceeds its quota, least recently written
+   * first: namespaces marked `evictable`, or any namespace (`lru`). Default: nothing.
+   */
+  eviction?: EvictionPolicy
+  /** Whether this namespace may be dropped from storage to make room for others. */
+  evictable?: boolean
+  /**
+   * Time-to-live in milliseconds of the whole namespace and of individual paths, restarted
+   * whenever they change. Expired values fall back to their defaults when read from storage,
+   * and are reset (notifying listeners) when they expire while the app is running.
+   */
+  ttl?: TTLOptions<T>
+  /**
+   * Whether changes are sent to and received from other tabs of the same origin:
+   * `'tabs'` (the default for persistent stores) or `false` (the default for `memoryOnly` stores).
+   * Only the changed path is sent, on a channel of its own per namespace.
+   */
+  sync?: false | 'tabs'
+  /**
+   * How a change from another tab that is older than a local change is resolved (default: `'lww'`).
+   * Changes are ordered by logical clocks sent with every change; stale changes are ignored by
+   * namespace (`'lww'`) or by path (`'paths'`), or passed to a custom resolver returning the value
+   * to keep. Setting it also persists the clock with the payload.
+   */
+  merge?: MergeStrategy
+  /** Intercept the writes of this store, after the middleware added with `addMiddleware`. */
+  middleware?: StoreMiddleware[]
+  /**
+   * Renders the default value (or the value from `hydrate`) on the server and while hydrating,
+   * then the persisted value right after hydration, so that a persisted value the server cannot
+   * know does not cause hydration mismatches (default: `false`).
+   */
+  hydrationSafe?: boolean
 }
 
 /**
@@ -42,20 +132,117 @@ type StoreOptions = {
 function createStoreRoot<T extends FieldValues>(
   namespace: string,
   defaultValue: T,
-  options: StoreOptions = {}
+  options: StoreOptions<T> = {}
+): StoreRoot<T> {
+  if (options.container) {
+    return instantiateStoreRoot(namespace, defaultValue, options, containerOf(options.container))
+  }
+  return createScopedRoot(namespace, defaultValue, options)
+}
+
+/**
+ * Creates the store of a namespace in a container.
+ *
+ * @param namespace - Unique identifier for the store
+ * @param defaultValue - Initial state merged with any persisted data
+ * @param options - Configuration options
+ * @param container - The container holding the store
+ */
+function instantiateStoreRoot<T extends FieldValues>(
+  namespace: string,
+  defaultValue: T,
+  options: StoreOptions<T>,
+  container: Container
 ): StoreRoot<T> {
   'use memo'
 
+  const {
+    batch,
+    configureNamespace,
+    flushNamespace,
+    getServerValue,
+    getSnapshot,
+    hydrateNamespace,
+    namespaceStats,
+    notifyListeners,
+    onPatches,
+    produce,
+    registerNamespace,
+    rename,
+    resetNamespace,
+    setLeaf,
+    subscribe,
+    syncNamespace,
+    useCompute,
+    useDebounce,
+    useObject
+  } = container
   const memoryOnly = options?.memoryOnly ?? false
+  const middleware = options.middleware ?? []
+  const sync = options.sync ?? (memoryOnly ? false : 'tabs')
+  if (!memoryOnly) {
+    configureNamespace(namespace, {
+      storage: options.storage,
+      version: options.version,
+      migrate: options.migrate,
+      onNewerVersion: options.onNewerVersion,
+      persist: options.persist,
+      serializer: options.serializer,
+      compression: options.compression === true ? lzUTF16Codec : options.compression || undefined,
+      writeBehind: options.writeBehind,
+      onStorageError: options.onStorageError,
+      eviction: options.eviction,
+      evictable: options.evictable,
+      ttl: options.ttl,
+      onExpire: path => storeApi.reset(path as FieldPath<T>),
+      sync,
+      merge: options.merge
+    })
+  }
+  registerNamespace(namespace, defaultValue, memoryOnly, options.hydrationSafe)
+  // server values take precedence over persisted ones, which take precedence over defaults
+  const withDefaults = (persisted: unknown) =>
+    mergeWithDefaults(mergeWithDefaults(defaultValue, persisted), getServerValue(namespace))
   // merge with default value and save in memory only
-  produce(
-    namespace,
-    mergeWithDefaults(defaultValue, getSnapshot(namespace, memoryOnly)),
-    true,
-    true
-  )
+  produce(namespace, withDefaults(getSnapshot(namespace, memoryOnly)), true, true)
+
+  if (sync) {
+    if (memoryOnly) {
+      // configured after the defaults are set so that they are not sent to other tabs
+      configureNamespace(namespace, { sync, merge: options.merge }, true)
+    }
+    syncNamespace(namespace, memoryOnly)
+  }
+
+  let hydrated = memoryOnly || !options.storage?.async
+  const hydrationListeners = new Set<() => void>()
+  const subscribeHydrated = (listener: () => void) => {
+    hydrationListeners.add(listener)
+    return () => {
+      hydrationListeners.delete(listener)
+    }
+  }
+  const getHydrated = () => hydrated
+  const onHydrated = hydrated
+    ? Promise.resolve()
+    : hydrateNamespace(namespace).then(persisted => {
+        if (persisted !== undefined) {
+          produce(namespace, withDefaults(persisted), false, true)
+        }
+        hydrated = true
+        hydrationListeners.forEach(listener => {
+          listener()
+        })
+      })
 
   const storeApi: StoreRoot<T> = {
+    get hydrated() {
+      return hydrated
+    },
+    useHydrated: () => useSyncExternalStore(subscribeHydrated, getHydrated, getHydrated),
+    onHydrated,
+    flush: () => flushNamespace(namespace),
+    storageStats: () => namespaceStats(namespace),
     state: <P extends FieldPath<T>>(path: P) => createRootNode(storeApi, path),
     use: <P extends FieldPath<T>>(path: P) =>
       useObject<T, P>(namespace, path, memoryOnly) as FieldPathValue<T, P>,
@@ -66,25 +253,45 @@ function createStoreRoot<T extends FieldValues>(
       value: StoreSetStateValue<FieldPathValue<T, P>>,
       skipUpdate = false
     ) => {
-      if (typeof value !== 'function') {
-        return setLeaf<T, P>(namespace, path, value, skipUpdate, memoryOnly)
-      }
       const currentValue = storeApi.value(path)
-      const newValue = value(currentValue)
-      return setLeaf<T, P>(namespace, path, newValue, skipUpdate, memoryOnly)
+      const newValue = typeof value === 'function' ? value(currentValue) : value
+      runMiddleware(middleware, { namespace, path, prev: currentValue, next: newValue }, next =>
+        setLeaf<T, P>(namespace, path, next as FieldPathValue<T, P>, skipUpdate, memoryOnly)
+      )
     },
     value: <P extends FieldPath<T>>(path: P) =>
       getSnapshot(joinPath(namespace, path), memoryOnly) as FieldPathValue<T, P>,
     reset: <P extends FieldPath<T>>(path: P) => {
-      return produce(
-        joinPath(namespace, path),
-        getNestedValue(defaultValue, path),
-        false,
-        memoryOnly
+      runMiddleware(
+        middleware,
+        { namespace, path, prev: storeApi.value(path), next: getNestedValue(defaultValue, path) },
+        next => produce(joinPath(namespace, path), next, false, memoryOnly)
+      )
+    },
+    resetAll: () => {
+      runMiddleware(
+        middleware,
+        { namespace, path: '', prev: storeApi.value('' as FieldPath<T>), next: defaultValue },
+        next => {
+          if (next === defaultValue) {
+            resetNamespace(namespace)
+          } else {
+            produce(namespace, next, false, memoryOnly)
+          }
+        }
       )
     },
-    rename: <P extends FieldPath<T>>(path: P, oldKey: string, newKey: string) =>
-      rename(joinPath(namespace, path), oldKey, newKey, memoryOnly),
+    rename: <P extends FieldPath<T>>(path: P, oldKey: string, newKey: string) => {
+      const current = storeApi.value(path)
+      const renamed = renameKey(current, oldKey, newKey)
+      runMiddleware(middleware, { namespace, path, prev: current, next: renamed }, next => {
+        if (next === renamed) {
+          rename(joinPath(namespace, path), oldKey, newKey, memoryOnly)
+        } else {
+          setLeaf<T, P>(namespace, path, next as FieldPathValue<T, P>, false, memoryOnly)
+        }
+      })
+    },
     subscribe: <P extends FieldPath<T>>(
       path: P,
       listener: (value: FieldPathValue<T, P>) => void
@@ -110,6 +317,16 @@ function createStoreRoot<T extends FieldValues>(
         forceNotify: true
       })
     },
+    onPatches: listener => onPatches(namespace, listener),
+    applyPatches: patches => applyPatches(storeApi, batch, patches),
+    ...createOptimisticUpdates<T>(
+      {
+        set: (path, value) => storeApi.set(path, value),
+        subscribe: (path, listener) => storeApi.subscribe(path, listener),
+        value: path => storeApi.value(path)
+      },
+      batch
+    ),
     useState: <P extends FieldPath<T>>(path: P) => {
       const setValue = useCallback(
         <V extends FieldPathValue<T, P>>(value: StoreSetStateValue<V>) => {
@@ -127,22 +344,71 @@ function createStoreRoot<T extends FieldValues>(
   return storeApi
 }
 
-function mergeWithDefaults<T>(defaultValue: T, existingValue: unknown): T {
-  if (existingValue === undefined) {
-    return defaultValue
+/**
+ * Creates a store without a container: hooks read the store from the container of the closest
+ * `StoreProvider`, and other methods from the container of `runWithStoreContainer`, so that
+ * each React root, or each request on the server, has its own state. Outside of both, the
+ * global container is used.
+ */
+function createScopedRoot<T extends FieldValues>(
+  namespace: string,
+  defaultValue: T,
+  options: StoreOptions<T>
+): StoreRoot<T> {
+  const instances = new WeakMap<StoreContainer, StoreRoot<T>>()
+  const instanceFor = (container: StoreContainer) => {
+    let instance = instances.get(container)
+    if (!instance) {
+      instance = instantiateStoreRoot(namespace, defaultValue, options, containerOf(container))
+      instances.set(container, instance)
+    }
+    return instance
   }
+  instanceFor(defaultContainer)
+  const current = () => instanceFor(activeStoreContainer() ?? defaultContainer)
+  const useInstance = () => instanceFor(useStoreContainer())
 
-  if (!isRecord(defaultValue) || !isRecord(existingValue)) {
-    return existingValue as T
+  const storeApi: StoreRoot<T> = {
+    get hydrated() {
+      return current().hydrated
+    },
+    useHydrated: () => useInstance().useHydrated(),
+    get onHydrated() {
+      return current().onHydrated
+    },
+    flush: () => current().flush(),
+    storageStats: () => current().storageStats(),
+    state: <P extends FieldPath<T>>(path: P) => createRootNode(storeApi, path),
+    use: path => useInstance().use(path),
+    useDebounce: (path, delay) => useInstance().useDebounce(path, delay),
+    useState: path => useInstance().useState(path),
+    value: path => current().value(path),
+    set: (path, value, skipUpdate) => current().set(path, value, skipUpdate),
+    reset: path => current().reset(path),
+    resetAll: () => current().resetAll(),
+    rename: (path, oldKey, newKey) => current().rename(path, oldKey, newKey),
+    subscribe: (path, listener) => current().subscribe(path, listener),
+    useCompute: (path, fn, deps) => useInstance().useCompute(path, fn, deps),
+    notify: path => current().notify(path),
+    optimistic: fn => current().optimistic(fn),
+    isPending: path => current().isPending(path),
+    usePending: path => useInstance().usePending(path),
+    onPatches: listener => current().onPatches(listener),
+    applyPatches: patches => current().applyPatches(patches)
   }
+  return storeApi
+}
 
-  const defaults = defaultValue as Record<string, unknown>
-  const existing = existingValue as Record<string, unknown>
-  const merged: Record<string, unknown> = { ...existing }
-
-  for (const key of Object.keys(defaults)) {
-    merged[key] = mergeWithDefaults(defaults[key], existing[key])
+/** The object at a path after renaming one of its keys, as `rename` writes it. */
+function renameKey(current: unknown, oldKey: string, newKey: string): unknown {
+  if (current === undefined || current === null || typeof current !== 'object') {
+    return { [newKey]: undefined }
   }
-
-  return merged as T
+  const obj = current as Record<string, unknown>
+  if (oldKey === newKey || !Object.hasOwn(obj, oldKey)) return current
+  return Object.fromEntries(
+    getStableKeys(obj)
+      .filter(key => Object.hasOwn(obj, key))
+      .map(key => [key === oldKey ? newKey : key, obj[key]])
+  )
 }
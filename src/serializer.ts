@@ -0,0 +1,96 @@
+export { jsonSerializer, type Serializer, taggedJSONSerializer }
+
+/**
+ * Converts namespace values to and from strings for storage and cross-tab sync.
+ */
+type Serializer = {
+  stringify: (value: unknown) => string
+  parse: (text: string) => unknown
+}
+
+/** Plain JSON, the default. Date becomes a string, Map and Set become `{}`, BigInt throws. */
+const jsonSerializer: Serializer = {
+  stringify: value => JSON.stringify(value),
+  parse: text => JSON.parse(text)
+}
+
+const TYPE_KEY = '__juststore_type'
+
+type Tagged = {
+  [TYPE_KEY]: 'Date' | 'Map' | 'Set' | 'BigInt' | 'RegExp' | 'undefined'
+  value?: unknown
+}
+
+function isTagged(value: unknown): value is Tagged {
+  return typeof value === 'object' && value !== null && Object.hasOwn(value, TYPE_KEY)
+}
+
+function replace(this: unknown, key: string, value: unknown): unknown {
+  // `value` has already been through toJSON (e.g. Date -> string), read the raw one instead
+  const raw = (this as Record<string, unknown>)[key]
+  if (raw instanceof Date) {
+    const time = raw.getTime()
+    return { [TYPE_KEY]: 'Date', value: Number.isNaN(time) ? null : time } satisfies Tagged
+  }
+  if (raw instanceof Map) {
+    return { [TYPE_KEY]: 'Map', value: [...raw.entries()] } satisfies Tagged
+  }
+  if (raw instanceof Set) {
+    return { [TYPE_KEY]: 'Set', value: [...raw.values()] } satisfies Tagged
+  }
+  if (raw instanceof RegExp) {
+    return { [TYPE_KEY]: 'RegExp', value: [raw.source, raw.flags] } satisfies Tagged
+  }
+  if (typeof raw === 'bigint') {
+    return { [TYPE_KEY]: 'BigInt', value: raw.toString() } satisfies Tagged
+  }
+  if (raw === undefined && Array.isArray(this)) {
+    return { [TYPE_KEY]: 'undefined' } satisfies Tagged
+  }
+  return value
+}
+
+function revive(_key: string, value: unknown): unknown {
+  if (Array.isArray(value)) {
+    // revived `undefined` elements are left as holes by JSON.parse
+    for (let i = 0; i < value.length; i++) {
+      if (!(i in value)) value[i] = undefined
+    }
+    return value
+  }
+  if (!isTagged(value)) return value
+  switch (value[TYPE_KEY]) {
+    case 'Date':
+      return new Date((value.value as number | null) ?? Number.NaN)
+    case 'Map':
+      return new Map(value.value as [unknown, unknown][])
+    case 'Set':
+      return new Set(value.value as unknown[])
+    case 'RegExp': {
+      const [source, flags] = value.value as [string, string]
+      return new RegExp(source, flags)
+    }
+    case 'BigInt':
+      return BigInt(value.value as string)
+    case 'undefined':
+      return undefined
+    default:
+      return value
+  }
+}
+
+/**
+ * JSON with tagged values so that Date, Map, Set, BigInt, RegExp and
+ * `undefined` array elements round-trip faithfully.
+ *
+ * Special values are encoded as `{ "__juststore_type": "Date", "value": ... }`.
+ *
+ * @example
+ * createStore('session', { startedAt: new Date(), seen: new Set<string>() }, {
+ *   serializer: taggedJSONSerializer
+ * })
+ */
+const taggedJSONSerializer: Serializer = {
+  stringify: value => JSON.stringify(value, replace),
+  parse: text => JSON.parse(text, revive)
+}
@@ -0,0 +1,78 @@
+import { containerOf, type StoreContainer } from './container'
+import { cookieVersions } from './cookie'
+import { jsonSerializer, type Serializer } from './serializer'
+
+export { dehydrate, type DehydrateOptions, hydrate, type HydrateOptions }
+
+type DehydrateOptions = {
+  /** Container to read, e.g. the one of the current request (default: the global container) */
+  container?: StoreContainer
+  /** Namespaces to include (default: the ones that differ from their default value) */
+  namespaces?: readonly string[]
+  /** JSON-based serializer of the payload (default: JSON) */
+  serializer?: Serializer
+}
+
+type HydrateOptions = {
+  /** Container to seed (default: the global container) */
+  container?: StoreContainer
+  /** Serializer the payload was written with (default: JSON) */
+  serializer?: Serializer
+}
+
+// characters that would end a <script> element or a JavaScript string literal
+const UNSAFE_CHARACTERS = /[<\u2028\u2029]/g
+
+/**
+ * Serializes the state rendered on the server, to be embedded in the HTML and passed to
+ * `hydrate` on the client. The payload is safe to embed in a `<script>` element.
+ *
+ * @param options - Dehydration options
+ * @returns The payload
+ * @example
+ * const container = createStoreContainer()
+ * createStore('user', { name: '' }, { container }).name.set(user.name)
+ * const html = renderToString(
+ *   <StoreProvider container={container}>
+ *     <App />
+ *   </StoreProvider>
+ * )
+ * const state = dehydrate({ container })
+ * // <script id="juststore-state" type="application/json">${state}</script>
+ */
+function dehydrate({
+  container,
+  namespaces,
+  serializer = jsonSerializer
+}: DehydrateOptions = {}): string {
+  const snapshot = containerOf(container).snapshotNamespaces(namespaces)
+  return serializer
+    .stringify(Object.fromEntries(snapshot))
+    .replace(UNSAFE_CHARACTERS, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`)
+}
+
+/**
+ * Seeds stores with the state rendered on the server; call it before the first render.
+ *
+ * Server values take precedence over persisted values, which take precedence over defaults.
+ * Stores created later start with their server value, and existing stores are updated.
+ *
+ * @param payload - The payload returned by `dehydrate`, or values keyed by namespace (e.g. from
+ * `parseCookieHeader`, whose versioned values are migrated)
+ * @param options - Hydration options
+ * @example
+ * hydrate(document.getElementById('juststore-state')!.textContent!)
+ * hydrateRoot(document.getElementById('root')!, <App />)
+ */
+function hydrate(
+  payload: string | Record<string, unknown>,
+  { container, serializer = jsonSerializer }: HydrateOptions = {}
+) {
+  const values =
+    typeof payload === 'string' ? (serializer.parse(payload) as Record<string, unknown>) : payload
+  const { seedNamespace } = containerOf(container)
+  const versions = typeof payload === 'string' ? undefined : cookieVersions.get(payload)
+  for (const [namespace, value] of Object.entries(values)) {
+    seedNamespace(namespace, value, versions?.[namespace])
+  }
+}
@@ -0,0 +1,151 @@
+export {
+  type AnyStorageAdapter,
+  type AsyncStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  createSessionStorageAdapter,
+  DEFAULT_STORAGE_PREFIX,
+  localStorageAdapter,
+  type StorageAdapter,
+  type WebStorageAdapterOptions
+}
+
+const DEFAULT_STORAGE_PREFIX = 'juststore:'
+
+/**
+ * A key-value backend used to persist store namespaces.
+ *
+ * Keys are namespaces (without any prefix) and values are serialized payloads.
+ * Adapters may throw; the store catches and reports failures.
+ */
+type StorageAdapter = {
+  readonly async?: false
+  /** Read the payload of a namespace; undefined when missing or unavailable. */
+  get: (key: string) => string | undefined
+  /** Write the payload of a namespace. */
+  set: (key: string, value: string) => void
+  /** Remove a namespace. */
+  delete: (key: string) => void
+  /** List the namespaces held by this adapter. */
+  list: () => string[]
+}
+
+/**
+ * An asynchronous key-value backend (e.g. IndexedDB).
+ *
+ * Stores using an async adapter start with their defaults and hydrate once the
+ * persisted payload has been read; writes are fire-and-forget.
+ */
+type AsyncStorageAdapter = {
+  readonly async: true
+  /** Read the payload of a namespace; undefined when missing or unavailable. */
+  get: (key: string) => Promise<string | undefined>
+  /** Write the payload of a namespace. */
+  set: (key: string, value: string) => Promise<void>
+  /** Remove a namespace. */
+  delete: (key: string) => Promise<void>
+  /** List the namespaces held by this adapter. */
+  list: () => Promise<string[]>
+}
+
+type AnyStorageAdapter = StorageAdapter | AsyncStorageAdapter
+
+type WebStorageAdapterOptions = {
+  /** Prefix prepended to every key (default: `juststore:`) */
+  prefix?: string
+}
+
+/**
+ * Creates a storage adapter backed by `window.localStorage`.
+ *
+ * All operations are no-ops on SSR or when localStorage is unavailable.
+ *
+ * @param options - Adapter options
+ * @param options.prefix - Key prefix, use a distinct one per app sharing an origin
+ * @returns The storage adapter
+ * @example
+ * createStore('settings', defaults, {
+ *   storage: createLocalStorageAdapter({ prefix: 'admin:' })
+ * })
+ */
+function createLocalStorageAdapter(options: WebStorageAdapterOptions = {}): StorageAdapter {
+  return createWebStorageAdapter(
+    // not on the server, even where the runtime defines a process-wide localStorage
+    () =>
+      typeof window === 'undefined' || typeof localStorage === 'undefined'
+        ? undefined
+        : localStorage,
+    options
+  )
+}
+
+/**
+ * Creates a storage adapter backed by `window.sessionStorage`.
+ *
+ * All operations are no-ops on SSR or when sessionStorage is unavailable.
+ *
+ * @param options - Adapter options
+ * @param options.prefix - Key prefix (default: `juststore:`)
+ * @returns The storage adapter
+ */
+function createSessionStorageAdapter(options: WebStorageAdapterOptions = {}): StorageAdapter {
+  return createWebStorageAdapter(
+    () =>
+      typeof window === 'undefined' || typeof sessionStorage === 'undefined'
+        ? undefined
+        : sessionStorage,
+    options
+  )
+}
+
+/**
+ * Creates a storage adapter backed by an in-memory map.
+ *
+ * Useful for tests and for environments without Web Storage.
+ *
+ * @param initial - Optional initial payloads keyed by namespace
+ * @returns The storage adapter
+ */
+function createMemoryStorageAdapter(initial?: Record<string, string>): StorageAdapter {
+  const items = new Map<string, string>(initial ? Object.entries(initial) : [])
+  return {
+    get: key => items.get(key),
+    set: (key, value) => {
+      items.set(key, value)
+    },
+    delete: key => {
+      items.delete(key)
+    },
+    list: () => [...items.keys()]
+  }
+}
+
+function createWebStorageAdapter(
+  getStorage: () => Storage | undefined,
+  { prefix = DEFAULT_STORAGE_PREFIX }: WebStorageAdapterOptions
+): StorageAdapter {
+  return {
+    get: key => getStorage()?.getItem(`${prefix}${key}`) ?? undefined,
+    set: (key, value) => {
+      getStorage()?.setItem(`${prefix}${key}`, value)
+    },
+    delete: key => {
+      getStorage()?.removeItem(`${prefix}${key}`)
+    },
+    list: () => {
+      const storage = getStorage()
+      if (!storage) return []
+      const keys: string[] = []
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)
+        if (key?.startsWith(prefix)) {
+          keys.push(key.slice(prefix.length))
+        }
+      }
+      return keys
+    }
+  }
+}
+
+/** The default adapter: localStorage with the `juststore:` prefix. */
+const localStorageAdapter = createLocalStorageAdapter()
@@ -0,0 +1,60 @@
+export {
+  DecryptionError,
+  isQuotaExceeded,
+  type StorageErrorKind,
+  StorageError,
+  type StorageOperation
+}
+
+/**
+ * - `quota`: the storage is full
+ * - `serialization`: the value could not be serialized
+ * - `parse`: a stored or received payload could not be parsed or migrated
+ * - `unavailable`: the storage could not be accessed (e.g. blocked or private mode)
+ * - `decryption`: an encrypted payload could not be decrypted (wrong key or tampering)
+ */
+type StorageErrorKind = 'quota' | 'serialization' | 'parse' | 'unavailable' | 'decryption'
+
+type StorageOperation = 'read' | 'write' | 'delete' | 'broadcast'
+
+/**
+ * A failure while persisting or restoring a namespace, passed to `onStorageError`.
+ */
+class StorageError extends Error {
+  readonly kind: StorageErrorKind
+  readonly namespace: string
+  readonly operation: StorageOperation
+
+  constructor(
+    kind: StorageErrorKind,
+    namespace: string,
+    operation: StorageOperation,
+    cause: unknown
+  ) {
+    super(`Storage ${kind} error on ${operation} of "${namespace}"`, { cause })
+    this.name = 'StorageError'
+    this.kind = kind
+    this.namespace = namespace
+    this.operation = operation
+  }
+}
+
+/** Thrown by an encrypted storage adapter when a payload cannot be decrypted. */
+class DecryptionError extends Error {
+  constructor(namespace: string, reason: string, cause?: unknown) {
+    super(`Cannot decrypt "${namespace}": ${reason}`, { cause })
+    this.name = 'DecryptionError'
+  }
+}
+
+/** Whether an error thrown by a storage backend means it is full. */
+function isQuotaExceeded(e: unknown): boolean {
+  if (typeof e !== 'object' || e === null) return false
+  const { name, code } = e as { name?: unknown; code?: unknown }
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  )
+}
@@ -10,8 +10,9 @@ export { createStore, type Store }
  *
  * - Dot-path addressing for nested values (e.g. "config.ui.theme").
  * - Immutable partial updates with automatic object/array creation.
- * - Persists root namespaces to localStorage with an in-memory mirror (no localStorage on SSR).
- * - Cross-tab synchronization via BroadcastChannel (no-ops on SSR).
+ * - Persists root namespaces to localStorage (or a custom storage adapter) with an in-memory mirror.
+ * - Cross-tab synchronization via BroadcastChannel, or the storage event where it is
+ *   unavailable (no-ops on SSR).
  * - Fine-grained subscriptions built on useSyncExternalStore.
  * - Type-safe paths using FieldPath.
  * - Dynamic deep access via Proxy for ergonomic usage like `store.a.b.c.use()` and `store.a.b.c.set(v)`.
@@ -24,7 +25,23 @@ type Store<T extends FieldValues> = StoreRoot<T> & ObjectProxy<T>
  * @param namespace - Unique identifier for the store, used as the localStorage key prefix
  * @param defaultValue - Initial state shape; merged with any existing persisted data
  * @param options - Configuration options
- * @param options.memoryOnly - When true, disables localStorage persistence (default: false)
+ * @param options.memoryOnly - When true, disables persistence (default: false)
+ * @param options.container - Container holding the store (default: the global container)
+ * @param options.storage - Storage adapter to persist to (default: localStorage with the `juststore:` prefix)
+ * @param options.version - Schema version stored next to the persisted value
+ * @param options.migrate - Migrations keyed by the version they migrate to
+ * @param options.onNewerVersion - Decides the value when the persisted version is newer
+ * @param options.persist - Paths to include in or exclude from persistence
+ * @param options.serializer - Serializer for persisted and cross-tab payloads (default: JSON)
+ * @param options.compression - Compress stored payloads (`true` for the built-in LZ codec)
+ * @param options.writeBehind - Defers storage writes (debounce or idle callback)
+ * @param options.onStorageError - Receives storage failures (default: console.error)
+ * @param options.eviction - What to drop from storage when a write exceeds its quota
+ * @param options.evictable - Whether this namespace may be dropped to make room for others
+ * @param options.ttl - Time-to-live of the namespace and of individual paths
+ * @param options.sync - Whether changes are synchronized across tabs (default: 'tabs' unless memoryOnly)
+ * @param options.merge - How concurrent changes from other tabs are resolved (default: 'lww')
+ * @param options.middleware - Intercept the writes of this store
  * @returns A proxy object providing both path-based and dynamic property access to the store
  *
  * @example
@@ -44,7 +61,7 @@ type Store<T extends FieldValues> = StoreRoot<T> & ObjectProxy<T>
 function createStore<T extends FieldValues>(
   namespace: string,
   defaultValue: T,
-  options: StoreOptions = {}
+  options: StoreOptions<T> = {}
 ): Store<T> {
   const storeApi = createStoreRoot<T>(namespace, defaultValue, options)
   return new Proxy(storeApi, {
@@ -0,0 +1,166 @@
+import type { LogicalClock } from './clock'
+import { DEFAULT_STORAGE_PREFIX } from './storage'
+
+export {
+  ALL_NAMESPACES,
+  createBroadcastChannelTransport,
+  createStorageEventTransport,
+  getDefaultTransport,
+  type LeaderMessage,
+  type StorageEventTransportOptions,
+  type SyncMessage,
+  type SyncTransport,
+  type TransportMessage
+}
+
+/**
+ * A change to the value at `path` of a namespace (`''` for the whole namespace) sent to other tabs.
+ *
+ * `set` payloads are the serialized value at `path`, or the namespace payload as stored when
+ * `persisted` is true (the storage event only sees what was written to storage), in which
+ * case the clock is read from the payload. `reset` returns a namespace to its defaults, or
+ * every namespace when `key` is `ALL_NAMESPACES`.
+ */
+type SyncMessage =
+  | {
+      type: 'set'
+      key: string
+      path: string
+      payload: string
+      persisted?: boolean
+      clock?: LogicalClock
+    }
+  | { type: 'delete'; key: string; path: string; clock?: LogicalClock }
+  | { type: 'reset'; key: string; clock?: LogicalClock }
+
+/** A leader election message, see `createLeaderElection`; `key` identifies the election. */
+type LeaderMessage = {
+  type: 'leader'
+  key: string
+  event: 'claim' | 'heartbeat' | 'resign'
+  tab: string
+}
+
+type TransportMessage = SyncMessage | LeaderMessage
+
+/** Key of the messages concerning every namespace (see `clearAll`). */
+const ALL_NAMESPACES = '*'
+
+/**
+ * Carries messages between tabs, on a separate channel per key (namespace or election).
+ */
+type SyncTransport = {
+  /** Send a message to the other tabs listening to its key. */
+  post: (message: TransportMessage) => void
+  /** Receive messages of a key from other tabs; returns a function removing the listener. */
+  subscribe: (key: string, listener: (message: TransportMessage) => void) => () => void
+}
+
+type StorageEventTransportOptions = {
+  /** Key prefix of the localStorage adapter (default: `juststore:`) */
+  prefix?: string
+}
+
+/**
+ * Creates a transport over a `BroadcastChannel` per key, named `<prefix>:<key>`.
+ *
+ * @param prefix - Channel name prefix (default: `juststore`)
+ * @returns The transport
+ */
+function createBroadcastChannelTransport(prefix = 'juststore'): SyncTransport {
+  // a channel does not receive its own messages, so posting and receiving share it
+  const channels = new Map<string, BroadcastChannel>()
+  const channelFor = (key: string) => {
+    let channel = channels.get(key)
+    if (!channel) {
+      channel = new BroadcastChannel(`${prefix}:${key}`)
+      channels.set(key, channel)
+    }
+    return channel
+  }
+  return {
+    post: message => channelFor(message.key).postMessage(message),
+    subscribe: (key, listener) => {
+      const channel = channelFor(key)
+      const onMessage = (event: MessageEvent<TransportMessage>) => listener(event.data)
+      channel.addEventListener('message', onMessage)
+      return () => channel.removeEventListener('message', onMessage)
+    }
+  }
+}
+
+/**
+ * Creates a transport over the `window` `storage` event, for browsers without `BroadcastChannel`.
+ *
+ * Other tabs are notified of namespace changes by the localStorage writes themselves, so only
+ * namespaces persisted to localStorage under `prefix` are synchronized, as a whole, and
+ * `memoryOnly` stores are not; a removed namespace is reset. Reset and leader election
+ * messages are relayed through a temporary key.
+ *
+ * @param options - Transport options
+ * @returns The transport
+ */
+function createStorageEventTransport({
+  prefix = DEFAULT_STORAGE_PREFIX
+}: StorageEventTransportOptions = {}): SyncTransport {
+  const relayKey = (key: string) => `${prefix}__message:${key}`
+  return {
+    post: message => {
+      // other tabs see namespace changes through the storage writes
+      if (message.type === 'set' || message.type === 'delete') return
+      const key = relayKey(message.key)
+      try {
+        // removed right away so that the next identical message is seen as a change
+        localStorage.setItem(key, JSON.stringify(message))
+        localStorage.removeItem(key)
+      } catch {
+        // storage unavailable or full, there is no other way to reach other tabs
+      }
+    },
+    subscribe: (namespace, listener) => {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === relayKey(namespace)) {
+          if (event.newValue === null) return
+          let message: TransportMessage
+          try {
+            message = JSON.parse(event.newValue) as TransportMessage
+          } catch {
+            // written by something else under the relay key
+            return
+          }
+          listener(message)
+          return
+        }
+        if (event.key !== `${prefix}${namespace}`) return
+        if (event.newValue === null) {
+          listener({ type: 'reset', key: namespace })
+        } else {
+          listener({
+            type: 'set',
+            key: namespace,
+            path: '',
+            payload: event.newValue,
+            persisted: true
+          })
+        }
+      }
+      window.addEventListener('storage', onStorage)
+      return () => window.removeEventListener('storage', onStorage)
+    }
+  }
+}
+
+let defaultTransport: SyncTransport | undefined
+
+/**
+ * The transport shared by cross-tab synchronization and leader election: `BroadcastChannel`
+ * when available, otherwise the `storage` event. Undefined on SSR.
+ */
+function getDefaultTransport(): SyncTransport | undefined {
+  if (typeof window === 'undefined') return undefined
+  defaultTransport ??=
+    typeof BroadcastChannel !== 'undefined'
+      ? createBroadcastChannelTransport()
+      : createStorageEventTransport()
+  return defaultTransport
+}
@@ -1,3 +1,5 @@
+import type { CompressionStats } from './compression'
+import type { JsonPatchOperation, PatchListener } from './patch'
 import type { FieldPath, FieldPathValue, FieldValues, IsEqual } from './path'
 
 export type {
@@ -9,6 +11,7 @@ export type {
   ObjectProxy,
   ObjectState,
   ObjectStateValue,
+  OptimisticTransaction,
   Prettify,
   ReadOnlyState,
   State,
@@ -90,6 +93,16 @@ type StoreSetStateValue<T> = T | ((prev: T) => T)
 
 /** Public API returned by createStore(namespace, defaultValue). */
 type StoreRoot<T extends FieldValues> = {
+  /** Whether the persisted value has been restored. Always true for synchronous storages. */
+  readonly hydrated: boolean
+  /** Subscribe to the hydration status. Re-renders once the persisted value is restored. */
+  useHydrated: () => boolean
+  /** Resolves once the persisted value has been restored. */
+  onHydrated: Promise<void>
+  /** Write deferred changes to storage immediately (see `writeBehind`). */
+  flush: () => void
+  /** Sizes of the last payload written to or read from storage, undefined before either. */
+  storageStats: () => CompressionStats | undefined
   /** Get the state object for a path. */
   state: <P extends FieldPath<T>>(path: P) => State<FieldPathValue<T, P>>
   /** Subscribe and read the value at path. Re-renders when the value changes. */
@@ -108,6 +121,8 @@ type StoreRoot<T extends FieldValues> = {
   ) => void
   /** Delete value at path (for arrays, removes index; for objects, deletes key). */
   reset: <P extends FieldPath<T>>(path: P) => void
+  /** Reset the whole store to its default value and remove it from storage, in every tab. */
+  resetAll: () => void
   /** Rename a key in an object. */
   rename: <P extends FieldPath<T>>(path: P, oldKey: string, newKey: string) => void
   /** Subscribe to changes at path and invoke listener with the new value
@@ -126,6 +141,32 @@ type StoreRoot<T extends FieldValues> = {
   ) => R
   /** Notify listeners at path. */
   notify: <P extends FieldPath<T>>(path: P) => void
+  /**
+   * Apply the writes of `fn` right away and revert them if it rejects. Paths changed by
+   * something else in the meantime keep their newer value.
+   *
+   * @returns The result of `fn`
+   */
+  optimistic: <R>(fn: (tx: OptimisticTransaction<T>) => Promise<R>) => Promise<R>
+  /** Whether an optimistic update of the path, or of any path, is pending. */
+  isPending: <P extends FieldPath<T>>(path?: P) => boolean
+  /** Subscribe to whether an optimistic update of the path, or of any path, is pending. */
+  usePending: <P extends FieldPath<T>>(path?: P) => boolean
+  /**
+   * Listen to the changes of the store as RFC 6902 JSON Patch operations, with the operations
+   * undoing them. Changes made in a `batch` arrive together when it ends.
+   *
+   * @returns A function to stop listening.
+   */
+  onPatches: (listener: PatchListener) => () => void
+  /** Apply JSON Patch operations in one batch, notifying listeners like `set`. */
+  applyPatches: (patches: readonly JsonPatchOperation[]) => void
+}
+
+/** The writes of an optimistic update, see `StoreRoot.optimistic`. */
+type OptimisticTransaction<T extends FieldValues> = {
+  /** Set value at path right away; reverted if the update fails. Throws once it has settled. */
+  set: <P extends FieldPath<T>>(path: P, value: StoreSetStateValue<FieldPathValue<T, P>>) => void
 }
 
 /** Common methods available on any deep proxy node */
@@ -1,5 +1,7 @@
 import { Activity, useCallback } from 'react'
 import type { Atom } from './atom'
+import { runWithStoreContainer } from './container'
+import { useStoreContainer } from './provider'
 import type { StoreSetStateValue, ValueState } from './types'
 
 export { Conditional, ConditionalRender, Render, RenderWithUpdate }
@@ -64,15 +66,19 @@ function RenderWithUpdate<State extends AtomLike<unknown>>({
 }: RenderWithUpdateProps<State>) {
   type Value = State['value']
   const value = state.use()
+  // writes to the container `state.use` reads, see `StoreProvider`
+  const container = useStoreContainer()
   const update = useCallback(
     (value: StoreSetStateValue<Value>) => {
-      if (typeof value !== 'function') {
-        state.set(value)
-      } else {
-        state.set((value as (prev: Value) => Value)(state.value))
-      }
+      runWithStoreContainer(container, () => {
+        if (typeof value !== 'function') {
+          state.set(value)
+        } else {
+          state.set((value as (prev: Value) => Value)(state.value))
+        }
+      })
     },
-    [state]
+    [state, container]
   )
   return children(value, update)
 }
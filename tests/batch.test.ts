@@ -0,0 +1,112 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  batch,
+  createAtom,
+  createMemoryStorageAdapter,
+  createStore,
+  createStoreContainer
+} from '../src'
+import { testReset } from '../src/container'
+import { recordingTransport } from './helpers'
+
+afterEach(() => {
+  testReset()
+})
+
+test('listeners are notified once, after every change of the batch', () => {
+  const uptime = createStore('uptime', {
+    routeKeys: [] as string[],
+    uptimeByAlias: {} as Record<string, number>
+  })
+  const seen: [string[], Record<string, number>][] = []
+  const record = () => seen.push([uptime.routeKeys.value, uptime.uptimeByAlias.value])
+  uptime.subscribe('routeKeys', record)
+  uptime.subscribe('uptimeByAlias', record)
+
+  const result = batch(() => {
+    uptime.routeKeys.set(['a'])
+    uptime.uptimeByAlias.set({ a: 99 })
+    uptime.routeKeys.set(['a', 'b'])
+    return 'done'
+  })
+
+  expect(result).toBe('done')
+  expect(seen).toEqual([
+    [['a', 'b'], { a: 99 }],
+    [['a', 'b'], { a: 99 }]
+  ])
+})
+
+test('listeners of values changed back during the batch are not notified', () => {
+  const counter = createStore('counter', { count: 0, label: '' })
+  const counts: number[] = []
+  const labels: string[] = []
+  counter.subscribe('count', count => counts.push(count))
+  counter.subscribe('label', label => labels.push(label))
+
+  batch(() => {
+    counter.count.set(1)
+    counter.label.set('one')
+    counter.count.set(0)
+  })
+
+  expect(counts).toEqual([])
+  expect(labels).toEqual(['one'])
+})
+
+test('batches span namespaces and atoms, and nest', () => {
+  const a = createStore('a', { n: 0 })
+  const b = createStore('b', { n: 0 })
+  const flag = createAtom('flag', false)
+  const calls: string[] = []
+  a.subscribe('n', () => calls.push(`a:${b.n.value}`))
+  b.subscribe('n', () => calls.push(`b:${a.n.value}`))
+  flag.subscribe(value => calls.push(`flag:${value}`))
+
+  batch(() => {
+    a.n.set(1)
+    batch(() => {
+      b.n.set(2)
+      flag.set(true)
+    })
+    expect(calls).toEqual([])
+  })
+
+  expect(calls.toSorted()).toEqual(['a:2', 'b:1', 'flag:true'])
+})
+
+test('storage writes and cross-tab messages are sent once the batch ends', () => {
+  const storage = createMemoryStorageAdapter()
+  const transport = recordingTransport()
+  const container = createStoreContainer({ storage, transport })
+  const settings = createStore('settings', { theme: 'light', lang: 'en' }, { container })
+  const draft = createStore('draft', { text: '' }, { container })
+
+  container.batch(() => {
+    settings.theme.set('dark')
+    settings.lang.set('fr')
+    draft.text.set('hello')
+    expect(storage.list()).toEqual([])
+    expect(transport.sent).toEqual([])
+  })
+
+  expect(storage.get('settings')).toBe('{"theme":"dark","lang":"fr"}')
+  expect(transport.sent).toEqual([
+    { type: 'set', key: 'settings', path: '', payload: '{"theme":"dark","lang":"fr"}' },
+    { type: 'set', key: 'draft', path: 'text', payload: '"hello"' }
+  ])
+})
+
+test('listeners are notified when the batch throws', () => {
+  const counter = createStore('counter', { count: 0 })
+  const counts: number[] = []
+  counter.subscribe('count', count => counts.push(count))
+
+  expect(() =>
+    batch(() => {
+      counter.count.set(1)
+      throw new Error('failed')
+    })
+  ).toThrow('failed')
+  expect(counts).toEqual([1])
+})
@@ -0,0 +1,82 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createMemoryStorageAdapter, createStore, lzUTF16Codec } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+const routes = Array.from({ length: 100 }, (_, i) => ({
+  path: `/api/v1/routes/${i}`,
+  method: 'GET',
+  healthy: i % 3 !== 0
+}))
+
+test('lz codec round-trips arbitrary strings', () => {
+  const samples = ['', 'a', 'abababababab', JSON.stringify(routes), '😀 héllo \u0000￿', '\ud800']
+  for (const text of samples) {
+    expect(lzUTF16Codec.decompress(lzUTF16Codec.compress(text))).toBe(text)
+  }
+})
+
+test('compressed payloads are stored and restored', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore(
+    'routes',
+    { routes: [] as typeof routes },
+    { storage, compression: true }
+  )
+  store.routes.set(routes)
+
+  const stored = storage.get('routes')!
+  const raw = JSON.stringify({ routes })
+  expect(stored.length).toBeLessThan(raw.length / 3)
+  expect(store.storageStats()).toEqual({
+    rawSize: raw.length,
+    storedSize: stored.length,
+    compressed: true
+  })
+
+  testReset()
+  const reloaded = createStore(
+    'routes',
+    { routes: [] as typeof routes },
+    {
+      storage: createMemoryStorageAdapter({ routes: stored })
+    }
+  )
+  expect(reloaded.routes.value).toEqual(routes)
+  expect(reloaded.storageStats()?.compressed).toBe(true)
+})
+
+test('uncompressed payloads are read by compressed stores', () => {
+  const storage = createMemoryStorageAdapter({ legacy: JSON.stringify({ count: 3 }) })
+  const store = createStore('legacy', { count: 0 }, { storage, compression: true })
+
+  expect(store.count.value).toBe(3)
+  expect(store.storageStats()).toEqual({ rawSize: 11, storedSize: 11, compressed: false })
+})
+
+test('small payloads are stored uncompressed when compression does not help', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore('small', { n: 0 }, { storage, compression: true })
+  store.n.set(1)
+
+  expect(storage.get('small')).toBe('{"n":1}')
+  expect(store.storageStats()?.compressed).toBe(false)
+})
+
+test('payloads compressed with an unknown codec are reported as parse errors', () => {
+  const errors: string[] = []
+  const store = createStore(
+    'unknown',
+    { count: 0 },
+    {
+      storage: createMemoryStorageAdapter({ unknown: '\u0001zstd\u0001abc' }),
+      onStorageError: e => errors.push(e.kind)
+    }
+  )
+
+  expect(store.count.value).toBe(0)
+  expect(errors).toEqual(['parse'])
+})
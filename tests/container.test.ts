@@ -0,0 +1,93 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  createAtom,
+  createMemoryStorageAdapter,
+  createMemoryStore,
+  createStore,
+  createStoreContainer
+} from '../src'
+import { testReset } from '../src/container'
+import { createHub } from './helpers'
+
+afterEach(() => {
+  testReset()
+})
+
+test('stores of the same namespace are isolated by container', () => {
+  const first = createStoreContainer()
+  const second = createStoreContainer()
+  const a = createStore('app', { count: 0 }, { container: first })
+  const b = createStore('app', { count: 0 }, { container: second })
+  const global = createStore('app', { count: 0 })
+  const counts: number[] = []
+  b.subscribe('count', count => counts.push(count))
+
+  a.count.set(1)
+  global.count.set(2)
+
+  expect(a.count.value).toBe(1)
+  expect(b.count.value).toBe(0)
+  expect(global.count.value).toBe(2)
+  expect(counts).toEqual([])
+})
+
+test('memory stores and atoms are isolated by container', () => {
+  const container = createStoreContainer()
+  const scoped = createMemoryStore('draft', { text: '' }, container)
+  const global = createMemoryStore('draft', { text: '' })
+  const scopedAtom = createAtom('open', false, false, container)
+  const globalAtom = createAtom('open', false)
+  const opened: boolean[] = []
+  scopedAtom.subscribe(open => opened.push(open))
+
+  scoped.text.set('hello')
+  globalAtom.set(true)
+
+  expect(global.text.value).toBe('')
+  expect(scopedAtom.value).toBe(false)
+  expect(opened).toEqual([])
+})
+
+test('containers persist to their own storage', () => {
+  const storage = createMemoryStorageAdapter()
+  const container = createStoreContainer({ storage })
+  const prefs = createStore('prefs', { theme: 'light' }, { container })
+  prefs.theme.set('dark')
+
+  expect(storage.list()).toEqual(['prefs'])
+  const reloaded = createStore(
+    'prefs',
+    { theme: 'light' },
+    { container: createStoreContainer({ storage }) }
+  )
+  expect(reloaded.theme.value).toBe('dark')
+})
+
+test('containers synchronize over their own transport', () => {
+  const connect = createHub()
+  const storage = createMemoryStorageAdapter()
+  const tab1 = createStoreContainer({ storage, transport: connect() })
+  const tab2 = createStoreContainer({ storage, transport: connect() })
+  const a = createStore('shared', { count: 0 }, { container: tab1 })
+  const b = createStore('shared', { count: 0 }, { container: tab2 })
+
+  a.count.set(3)
+  expect(b.count.value).toBe(3)
+
+  tab2.clearAll()
+  expect(a.count.value).toBe(0)
+  expect(storage.list()).toEqual([])
+})
+
+test('clearAll of a container leaves other containers alone', () => {
+  const container = createStoreContainer()
+  const scoped = createStore('session', { user: '' }, { container })
+  const global = createStore('session', { user: '' }, { storage: createMemoryStorageAdapter() })
+  scoped.user.set('alice')
+  global.user.set('bob')
+
+  container.clearAll()
+
+  expect(scoped.user.value).toBe('')
+  expect(global.user.value).toBe('bob')
+})
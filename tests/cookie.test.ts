@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import {
+  createCookieStorageAdapter,
+  createStore,
+  createStoreContainer,
+  hydrate,
+  parseCookieHeader,
+  type StorageError,
+  taggedJSONSerializer
+} from '../src'
+import { testReset } from '../src/container'
+
+/** A `document.cookie` keeping the last attributes written for every cookie. */
+function createCookieJar() {
+  const jar = new Map<string, { value: string; attributes: string }>()
+  return {
+    jar,
+    get cookie() {
+      return [...jar].map(([name, { value }]) => `${name}=${value}`).join('; ')
+    },
+    set cookie(text: string) {
+      const [pair = '', ...attributes] = text.split('; ')
+      const index = pair.indexOf('=')
+      const name = pair.slice(0, index)
+      if (attributes.includes('Max-Age=0')) {
+        jar.delete(name)
+      } else {
+        jar.set(name, { value: pair.slice(index + 1), attributes: attributes.join('; ') })
+      }
+    }
+  }
+}
+
+let cookies: ReturnType<typeof createCookieJar>
+
+beforeEach(() => {
+  cookies = createCookieJar()
+  Object.assign(globalThis, { document: cookies })
+})
+
+afterEach(() => {
+  delete (globalThis as { document?: unknown }).document
+  testReset()
+})
+
+test('namespaces are written to cookies with their attributes', () => {
+  const storage = createCookieStorageAdapter({ sameSite: 'strict', maxAge: 60 })
+  const prefs = createStore(
+    'prefs',
+    { theme: 'light', locale: 'en' },
+    { container: createStoreContainer(), storage }
+  )
+
+  prefs.theme.set('dark')
+
+  expect(storage.list()).toEqual(['prefs'])
+  expect(cookies.jar.get('juststore%3Aprefs')).toEqual({
+    value: encodeURIComponent('{"theme":"dark","locale":"en"}'),
+    attributes: 'Path=/; Max-Age=60; SameSite=Strict'
+  })
+  expect(storage.get('prefs')).toBe('{"theme":"dark","locale":"en"}')
+
+  prefs.resetAll()
+  expect(storage.list()).toEqual([])
+})
+
+test('sameSite none cookies are secure', () => {
+  const storage = createCookieStorageAdapter({ sameSite: 'none', path: '/app', domain: 'a.dev' })
+  storage.set('prefs', '{}')
+
+  expect(cookies.jar.get('juststore%3Aprefs')?.attributes).toBe(
+    'Path=/app; Domain=a.dev; Max-Age=31536000; SameSite=None; Secure'
+  )
+})
+
+test('payloads larger than maxSize fail like a full storage', () => {
+  const errors: StorageError[] = []
+  const notes = createStore(
+    'notes',
+    { text: '' },
+    {
+      container: createStoreContainer(),
+      storage: createCookieStorageAdapter({ maxSize: 64 }),
+      onStorageError: error => errors.push(error)
+    }
+  )
+
+  notes.text.set('x'.repeat(100))
+
+  expect(notes.text.value).toBe('x'.repeat(100))
+  expect(cookies.jar.size).toBe(0)
+  expect(errors.map(e => e.kind)).toEqual(['quota'])
+})
+
+test('parseCookieHeader reads the values of the stores', () => {
+  const storage = createCookieStorageAdapter()
+  const container = createStoreContainer()
+  createStore('prefs', { theme: 'light' }, { container, storage }).theme.set('dark')
+  createStore(
+    'visit',
+    { at: new Date(0) },
+    { container, storage, serializer: taggedJSONSerializer, version: 2 }
+  ).at.set(new Date(1000))
+
+  const header = `session=abc; ${cookies.cookie}; juststore%3Abroken=%7B`
+
+  expect(parseCookieHeader(header)).toEqual({
+    prefs: { theme: 'dark' },
+    visit: { at: { __juststore_type: 'Date', value: 1000 } }
+  })
+  expect(parseCookieHeader(header, { serializer: taggedJSONSerializer }).visit).toEqual({
+    at: new Date(1000)
+  })
+  expect(parseCookieHeader(undefined)).toEqual({})
+})
+
+test('stores rendered on the server start with the cookie values', () => {
+  const storage = createCookieStorageAdapter()
+  createStore(
+    'prefs',
+    { theme: 'light', locale: 'en' },
+    { container: createStoreContainer(), storage }
+  ).locale.set('fr')
+  const header = cookies.cookie
+  delete (globalThis as { document?: unknown }).document
+
+  const container = createStoreContainer()
+  hydrate(parseCookieHeader(header), { container })
+  const prefs = createStore('prefs', { theme: 'light', locale: 'en' }, { container, storage })
+
+  expect(prefs.locale.value).toBe('fr')
+  expect(prefs.theme.value).toBe('light')
+})
+
+test('versioned cookie values are migrated to the version of the store', () => {
+  const storage = createCookieStorageAdapter()
+  createStore(
+    'profile',
+    { name: '' },
+    { container: createStoreContainer(), storage, version: 1 }
+  ).name.set('bob')
+  const header = cookies.cookie
+  delete (globalThis as { document?: unknown }).document
+  const options = {
+    storage,
+    version: 2,
+    migrate: { 2: (value: unknown) => ({ displayName: (value as { name: string }).name }) }
+  }
+
+  const seeded = createStoreContainer()
+  hydrate(parseCookieHeader(header), { container: seeded })
+  const before = createStore('profile', { displayName: '' }, { ...options, container: seeded })
+
+  const created = createStoreContainer()
+  const after = createStore('profile', { displayName: '' }, { ...options, container: created })
+  hydrate(parseCookieHeader(header), { container: created })
+
+  expect(parseCookieHeader(header)).toEqual({ profile: { name: 'bob' } })
+  expect(before.value('')).toEqual({ displayName: 'bob' })
+  expect(after.value('')).toEqual({ displayName: 'bob' })
+})
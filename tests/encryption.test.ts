@@ -0,0 +1,98 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  createEncryptedStorageAdapter,
+  createMemoryStorageAdapter,
+  createStore,
+  type StorageError
+} from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+const key = () => crypto.getRandomValues(new Uint8Array(32))
+
+test('payloads are encrypted before reaching the storage', async () => {
+  const inner = createMemoryStorageAdapter()
+  const storage = createEncryptedStorageAdapter(inner, { key: key() })
+
+  await storage.set('auth', '{"token":"secret"}')
+  expect(inner.get('auth')).not.toContain('secret')
+  expect(await storage.get('auth')).toBe('{"token":"secret"}')
+  expect(await storage.list()).toEqual(['auth'])
+})
+
+test('encrypted store hydrates from storage', async () => {
+  const inner = createMemoryStorageAdapter()
+  const material = key()
+  await createEncryptedStorageAdapter(inner, { key: material }).set(
+    'session',
+    JSON.stringify({ token: 'abc' })
+  )
+
+  const store = createStore(
+    'session',
+    { token: '', name: 'guest' },
+    { storage: createEncryptedStorageAdapter(inner, { key: async () => material }) }
+  )
+  expect(store.token.value).toBe('')
+
+  await store.onHydrated
+  expect(store.token.value).toBe('abc')
+  expect(store.name.value).toBe('guest')
+
+  store.token.set('def')
+  store.token.set('ghi')
+  await new Promise(resolve => setTimeout(resolve, 10))
+  const reread = createEncryptedStorageAdapter(inner, { key: material })
+  expect(JSON.parse((await reread.get('session'))!)).toEqual({ token: 'ghi', name: 'guest' })
+})
+
+test('a wrong key is reported and the store keeps its defaults', async () => {
+  const inner = createMemoryStorageAdapter()
+  await createEncryptedStorageAdapter(inner, { key: key() }).set('wrong', '{"token":"abc"}')
+  const stored = inner.get('wrong')
+
+  const errors: StorageError[] = []
+  const store = createStore(
+    'wrong',
+    { token: '' },
+    {
+      storage: createEncryptedStorageAdapter(inner, { key: key() }),
+      onStorageError: e => errors.push(e)
+    }
+  )
+  await store.onHydrated
+
+  expect(store.token.value).toBe('')
+  expect(errors).toHaveLength(1)
+  expect(errors[0]!.kind).toBe('decryption')
+  expect(errors[0]!.operation).toBe('read')
+  expect(inner.get('wrong')).toBe(stored)
+})
+
+test('tampered and moved payloads fail to decrypt', async () => {
+  const inner = createMemoryStorageAdapter()
+  const storage = createEncryptedStorageAdapter(inner, { key: key() })
+  await storage.set('a', '{"x":1}')
+
+  inner.set('b', inner.get('a')!)
+  await expect(storage.get('b')).rejects.toThrow('Cannot decrypt "b"')
+
+  const payload = inner.get('a')!
+  const i = payload.length - 8
+  inner.set('a', payload.slice(0, i) + (payload[i] === 'A' ? 'B' : 'A') + payload.slice(i + 1))
+  await expect(storage.get('a')).rejects.toThrow('Cannot decrypt "a"')
+})
+
+test('plaintext payloads are rejected unless allowed', async () => {
+  const inner = createMemoryStorageAdapter({ legacy: '{"token":"abc"}' })
+  const material = key()
+
+  await expect(
+    createEncryptedStorageAdapter(inner, { key: material }).get('legacy')
+  ).rejects.toThrow('payload is not encrypted')
+  const storage = createEncryptedStorageAdapter(inner, { key: material, allowPlaintext: true })
+  expect(await storage.get('legacy')).toBe('{"token":"abc"}')
+})
@@ -0,0 +1,68 @@
+/**
+ * A minimal in-memory IndexedDB implementation covering what the IndexedDB adapter uses:
+ * `open` with upgrade, single-store transactions, and `get`/`put`/`delete`/`getAllKeys`.
+ */
+type FakeRequest = {
+  result: unknown
+  error: Error | null
+  onsuccess?: () => void
+  onerror?: () => void
+  onupgradeneeded?: () => void
+}
+
+type Records = Map<IDBValidKey, unknown>
+
+export function installFakeIndexedDB() {
+  const databases = new Map<string, Map<string, Records>>()
+
+  const createDatabase = (stores: Map<string, Records>) => ({
+    createObjectStore: (name: string) => {
+      stores.set(name, new Map())
+    },
+    transaction: (name: string) => {
+      const records = stores.get(name)
+      const tx = {
+        error: null as Error | null,
+        oncomplete: undefined as (() => void) | undefined,
+        onerror: undefined as (() => void) | undefined,
+        onabort: undefined as (() => void) | undefined,
+        objectStore: () => {
+          if (!records) throw new Error(`object store ${name} not found`)
+          const request = (fn: () => unknown): FakeRequest => {
+            const req: FakeRequest = { result: fn(), error: null }
+            return req
+          }
+          return {
+            get: (key: IDBValidKey) => request(() => records.get(key)),
+            put: (value: unknown, key: IDBValidKey) => request(() => records.set(key, value)),
+            delete: (key: IDBValidKey) => request(() => records.delete(key)),
+            getAllKeys: () => request(() => [...records.keys()])
+          }
+        }
+      }
+      setTimeout(() => tx.oncomplete?.(), 0)
+      return tx
+    }
+  })
+
+  const factory = {
+    open: (name: string) => {
+      const request: FakeRequest = { result: undefined, error: null }
+      setTimeout(() => {
+        let stores = databases.get(name)
+        const isNew = !stores
+        stores ??= new Map()
+        databases.set(name, stores)
+        request.result = createDatabase(stores)
+        if (isNew) request.onupgradeneeded?.()
+        request.onsuccess?.()
+      }, 0)
+      return request
+    }
+  }
+
+  ;(globalThis as { indexedDB?: unknown }).indexedDB = factory
+  return () => {
+    delete (globalThis as { indexedDB?: unknown }).indexedDB
+  }
+}
@@ -1,6 +1,7 @@
 import { afterEach, expect, test } from 'bun:test'
 import { createForm } from '../src/form'
-import { getSnapshot, isRecord, produce, testReset } from '../src/impl'
+import { getSnapshot, produce, testReset } from '../src/container'
+import { isRecord } from '../src/impl'
 
 afterEach(() => {
   testReset()
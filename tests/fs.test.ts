@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createStore, createStoreContainer } from '../src'
+import { testReset } from '../src/container'
+import { createFileStorage } from '../src/fs'
+
+let directory: string
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'juststore-'))
+})
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true })
+  testReset()
+})
+
+/** Waits for a file system event to be handled. */
+async function eventually(check: () => void, timeout = 2000) {
+  const start = Date.now()
+  for (;;) {
+    try {
+      check()
+      return
+    } catch (e) {
+      if (Date.now() - start > timeout) throw e
+      await Bun.sleep(20)
+    }
+  }
+}
+
+test('namespaces are kept in JSON files', () => {
+  const { storage } = createFileStorage({ directory: join(directory, 'nested') })
+  const settings = createStore('settings', { verbose: false }, { storage })
+
+  settings.verbose.set(true)
+
+  expect(readdirSync(join(directory, 'nested'))).toEqual(['settings.json'])
+  expect(readFileSync(join(directory, 'nested', 'settings.json'), 'utf8')).toBe('{"verbose":true}')
+  expect(storage.list()).toEqual(['settings'])
+
+  const reloaded = createStore(
+    'settings',
+    { verbose: false },
+    { container: createStoreContainer({ storage }) }
+  )
+  expect(reloaded.verbose.value).toBe(true)
+
+  storage.delete('settings')
+  expect(storage.list()).toEqual([])
+  expect(storage.get('settings')).toBeUndefined()
+})
+
+test('namespace names are encoded in file names', () => {
+  const { storage } = createFileStorage({ directory })
+  storage.set('app/user', '{}')
+
+  expect(readdirSync(directory)).toEqual(['app%2Fuser.json'])
+  expect(storage.list()).toEqual(['app/user'])
+  expect(storage.get('app/user')).toBe('{}')
+})
+
+test('a missing directory has no namespaces', () => {
+  const { storage } = createFileStorage({ directory: join(directory, 'missing') })
+
+  expect(storage.list()).toEqual([])
+  expect(storage.get('settings')).toBeUndefined()
+})
+
+test('changes made by other processes are reloaded', async () => {
+  const container = createStoreContainer(createFileStorage({ directory }))
+  const settings = createStore('settings', { verbose: false, depth: 1 }, { container })
+  const values: boolean[] = []
+  settings.subscribe('verbose', value => values.push(value))
+
+  settings.depth.set(2)
+  // another process
+  writeFileSync(join(directory, 'settings.json'), '{"verbose":true,"depth":3}')
+
+  await eventually(() => expect(settings.depth.value).toBe(3))
+  expect(settings.verbose.value).toBe(true)
+  expect(values).toEqual([true])
+
+  rmSync(join(directory, 'settings.json'))
+  await eventually(() => expect(settings.depth.value).toBe(1))
+  expect(settings.verbose.value).toBe(false)
+})
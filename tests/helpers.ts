@@ -0,0 +1,63 @@
+import type { LogicalClock } from '../src/clock'
+import { createMemoryStorageAdapter, type StorageAdapter } from '../src/storage'
+import type { SyncMessage, SyncTransport, TransportMessage } from '../src/transport'
+
+/** Records the sent sync messages without their clocks, and their clocks separately. */
+export function recordingTransport(): SyncTransport & {
+  sent: SyncMessage[]
+  clocks: (LogicalClock | undefined)[]
+} {
+  const sent: SyncMessage[] = []
+  const clocks: (LogicalClock | undefined)[] = []
+  return {
+    sent,
+    clocks,
+    post: message => {
+      if (message.type === 'leader') return
+      const { clock, ...rest } = message
+      sent.push(rest)
+      clocks.push(clock)
+    },
+    subscribe: () => () => {}
+  }
+}
+
+/** Connects transports like tabs of one origin: messages reach every other connected transport. */
+export function createHub() {
+  const tabs = new Set<Map<string, Set<(message: TransportMessage) => void>>>()
+  return (): SyncTransport & { disconnect: () => void } => {
+    const listeners = new Map<string, Set<(message: TransportMessage) => void>>()
+    tabs.add(listeners)
+    return {
+      post: message => {
+        if (!tabs.has(listeners)) return
+        for (const other of tabs) {
+          if (other === listeners) continue
+          other.get(message.key)?.forEach(listener => listener(message))
+        }
+      },
+      subscribe: (key, listener) => {
+        if (!listeners.has(key)) listeners.set(key, new Set())
+        listeners.get(key)!.add(listener)
+        return () => listeners.get(key)!.delete(listener)
+      },
+      disconnect: () => tabs.delete(listeners)
+    }
+  }
+}
+
+/** A memory storage counting its writes. */
+export function countingStorage(): [StorageAdapter, () => number] {
+  const storage = createMemoryStorageAdapter()
+  let writes = 0
+  return [
+    {
+      ...storage,
+      set: (key, value) => {
+        writes++
+        storage.set(key, value)
+      }
+    },
+    () => writes
+  ]
+}
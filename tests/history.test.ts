@@ -0,0 +1,96 @@
+import { afterEach, expect, setSystemTime, test } from 'bun:test'
+import { batch, createAtom, createHistory, createStore } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  setSystemTime()
+  testReset()
+})
+
+test('changes below a path are undone and redone', () => {
+  const config = createStore('config', { editor: { tabSize: 2, wrap: false }, name: 'app' })
+  const history = createHistory(config.editor)
+
+  expect(history.canUndo).toBe(false)
+  config.editor.tabSize.set(4)
+  config.editor.wrap.set(true)
+  config.name.set('renamed')
+
+  history.undo()
+  expect(config.editor.value).toEqual({ tabSize: 4, wrap: false })
+  history.undo()
+  expect(config.editor.value).toEqual({ tabSize: 2, wrap: false })
+  expect(config.name.value).toBe('renamed')
+  expect(history.canUndo).toBe(false)
+  history.undo()
+  expect(config.editor.tabSize.value).toBe(2)
+
+  history.redo()
+  expect(config.editor.value).toEqual({ tabSize: 4, wrap: false })
+  expect(history.canRedo).toBe(true)
+
+  config.editor.tabSize.set(8)
+  expect(history.canRedo).toBe(false)
+  history.undo()
+  expect(config.editor.tabSize.value).toBe(4)
+})
+
+test('a batch is one step', () => {
+  const config = createStore('config', { a: 0, b: 0 })
+  const history = createHistory(config)
+
+  batch(() => {
+    config.a.set(1)
+    config.b.set(1)
+  })
+  history.undo()
+
+  expect(config.a.value).toBe(0)
+  expect(config.b.value).toBe(0)
+  history.redo()
+  expect(config.a.value).toBe(1)
+  expect(config.b.value).toBe(1)
+})
+
+test('rapid changes are coalesced into one step', () => {
+  const text = createAtom('text', '')
+  const history = createHistory(text, { coalesceMs: 500 })
+
+  setSystemTime(new Date(1000))
+  text.set('h')
+  setSystemTime(new Date(1200))
+  text.set('hi')
+  setSystemTime(new Date(2000))
+  text.set('hi!')
+
+  history.undo()
+  expect(text.value).toBe('hi')
+  history.undo()
+  expect(text.value).toBe('')
+  expect(history.canUndo).toBe(false)
+})
+
+test('the number of steps is limited', () => {
+  const counter = createStore('counter', { count: 0 })
+  const history = createHistory(counter.count, { limit: 2 })
+
+  for (let i = 1; i <= 4; i++) counter.count.set(i)
+  history.undo()
+  history.undo()
+  history.undo()
+
+  expect(counter.count.value).toBe(2)
+})
+
+test('clear and dispose', () => {
+  const counter = createStore('counter', { count: 0 })
+  const history = createHistory(counter.count)
+
+  counter.count.set(1)
+  history.clear()
+  expect(history.canUndo).toBe(false)
+
+  history.dispose()
+  counter.count.set(2)
+  expect(history.canUndo).toBe(false)
+})
@@ -0,0 +1,76 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  createAtom,
+  createMemoryStorageAdapter,
+  createStore,
+  createStoreContainer,
+  hydrate
+} from '../src'
+import { containerOf, testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+function persistedContainer() {
+  const storage = createMemoryStorageAdapter()
+  const saved = createStore(
+    'prefs',
+    { theme: 'light', lang: 'en' },
+    { container: createStoreContainer({ storage }) }
+  )
+  saved.theme.set('dark')
+  return createStoreContainer({ storage })
+}
+
+test('hydration-safe stores use their default value as server snapshot', () => {
+  const container = persistedContainer()
+  const prefs = createStore(
+    'prefs',
+    { theme: 'light', lang: 'en' },
+    { container, hydrationSafe: true }
+  )
+  const { getServerSnapshot } = containerOf(container)
+
+  expect(prefs.theme.value).toBe('dark')
+  expect(getServerSnapshot('prefs.theme', false)).toBe('light')
+  expect(getServerSnapshot('prefs', false)).toEqual({ theme: 'light', lang: 'en' })
+  // stable for React
+  expect(getServerSnapshot('prefs', false)).toBe(getServerSnapshot('prefs', false))
+})
+
+test('other stores use their current value as server snapshot', () => {
+  const container = persistedContainer()
+  createStore('prefs', { theme: 'light', lang: 'en' }, { container })
+
+  expect(containerOf(container).getServerSnapshot('prefs.theme', false)).toBe('dark')
+})
+
+test('server snapshots include the values from hydrate', () => {
+  const container = persistedContainer()
+  hydrate(JSON.stringify({ prefs: { lang: 'fr' } }), { container })
+  const prefs = createStore(
+    'prefs',
+    { theme: 'light', lang: 'en' },
+    { container, hydrationSafe: true }
+  )
+
+  expect(prefs.value('theme')).toBe('dark')
+  expect(containerOf(container).getServerSnapshot('prefs', false)).toEqual({
+    theme: 'light',
+    lang: 'fr'
+  })
+})
+
+test('persistent atoms use their default value as server snapshot', () => {
+  const storage = createMemoryStorageAdapter()
+  createAtom('sidebar', false, true, createStoreContainer({ storage })).set(true)
+  const container = createStoreContainer({ storage })
+  const sidebar = createAtom('sidebar', false, true, container)
+  const draft = createAtom('draft', '', false, container)
+  draft.set('hello')
+
+  expect(sidebar.value).toBe(true)
+  expect(containerOf(container).getServerSnapshot('atom:sidebar', false)).toBe(false)
+  expect(containerOf(container).getServerSnapshot('atom:draft', true)).toBe('hello')
+})
@@ -0,0 +1,87 @@
+import { afterAll, afterEach, beforeAll, expect, test } from 'bun:test'
+import { createIndexedDBAdapter, createStore } from '../src'
+import { testReset } from '../src/container'
+import { installFakeIndexedDB } from './fake_indexed_db'
+
+let uninstall: () => void
+
+beforeAll(() => {
+  uninstall = installFakeIndexedDB()
+})
+
+afterAll(() => {
+  uninstall()
+})
+
+afterEach(() => {
+  testReset()
+})
+
+test('indexedDB adapter round-trips payloads', async () => {
+  const storage = createIndexedDBAdapter({ dbName: 'roundtrip' })
+  await storage.set('ns', '{"a":1}')
+  expect(await storage.get('ns')).toBe('{"a":1}')
+  expect(await storage.list()).toEqual(['ns'])
+  await storage.delete('ns')
+  expect(await storage.get('ns')).toBeUndefined()
+})
+
+test('async store starts with defaults and hydrates from storage', async () => {
+  const storage = createIndexedDBAdapter({ dbName: 'hydrate' })
+  await storage.set('uptime', JSON.stringify({ history: [1, 2, 3] }))
+
+  const store = createStore('uptime', { history: [] as number[], limit: 10 }, { storage })
+  expect(store.hydrated).toBe(false)
+  expect(store.history.value).toEqual([])
+
+  let notified = 0
+  store.subscribe('history', () => {
+    notified++
+  })
+
+  await store.onHydrated
+  expect(store.hydrated).toBe(true)
+  expect(store.history.value).toEqual([1, 2, 3])
+  expect(store.limit.value).toBe(10)
+  expect(notified).toBe(1)
+})
+
+test('async store persists writes', async () => {
+  const storage = createIndexedDBAdapter({ dbName: 'writes' })
+  const store = createStore('routes', { count: 0 }, { storage })
+  await store.onHydrated
+
+  store.count.set(5)
+  await new Promise(resolve => setTimeout(resolve, 10))
+  expect(JSON.parse((await storage.get('routes'))!)).toEqual({ count: 5 })
+})
+
+test('writes made before hydration take precedence', async () => {
+  const storage = createIndexedDBAdapter({ dbName: 'precedence' })
+  await storage.set('early', JSON.stringify({ count: 1 }))
+
+  const store = createStore('early', { count: 0 }, { storage })
+  store.count.set(2)
+  await store.onHydrated
+
+  expect(store.count.value).toBe(2)
+})
+
+test('writes made before hydration keep the other persisted values', async () => {
+  const storage = createIndexedDBAdapter({ dbName: 'replay' })
+  await storage.set('table', JSON.stringify({ rows: [1, 2, 3], page: 0 }))
+
+  const store = createStore('table', { rows: [] as number[], page: 0 }, { storage })
+  store.page.set(1)
+  await store.onHydrated
+  await new Promise(resolve => setTimeout(resolve, 10))
+
+  expect(store.value('')).toEqual({ rows: [1, 2, 3], page: 1 })
+  expect(JSON.parse((await storage.get('table'))!)).toEqual({ rows: [1, 2, 3], page: 1 })
+})
+
+test('sync stores are hydrated immediately', async () => {
+  const store = createStore('sync_hydrated', { count: 0 })
+  expect(store.hydrated).toBe(true)
+  await store.onHydrated
+})
@@ -0,0 +1,90 @@
+import { expect, test } from 'bun:test'
+import { createLeaderElection, electLeader, type LeaderElection } from '../src/leader'
+import { createHub } from './helpers'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+const options = { heartbeatInterval: 10, timeout: 30 }
+const leaders = (elections: LeaderElection[]) => elections.filter(e => e.isLeader).length
+
+test('exactly one tab becomes the leader', async () => {
+  const connect = createHub()
+  const elections = [1, 2, 3].map(() => electLeader(connect(), 'single', options))
+  await sleep(50)
+
+  expect(leaders(elections)).toBe(1)
+  elections.forEach(e => e.close())
+})
+
+test('a tab joining later follows the existing leader', async () => {
+  const connect = createHub()
+  const first = electLeader(connect(), 'join', options)
+  await sleep(30)
+  expect(first.isLeader).toBe(true)
+
+  const second = electLeader(connect(), 'join', options)
+  await sleep(50)
+  expect(first.isLeader).toBe(true)
+  expect(second.isLeader).toBe(false)
+  first.close()
+  second.close()
+})
+
+test('another tab takes over when the leader stops sending heartbeats', async () => {
+  const connect = createHub()
+  const events: string[] = []
+  const transports = [connect(), connect()]
+  const elections = transports.map((transport, i) =>
+    electLeader(transport, 'failover', {
+      ...options,
+      onBecomeLeader: () => events.push(`lead ${i}`),
+      onResign: () => events.push(`resign ${i}`)
+    })
+  )
+  await sleep(40)
+  const leader = elections.findIndex(e => e.isLeader)
+  const follower = 1 - leader
+  expect(events).toEqual([`lead ${leader}`])
+
+  // the leader's tab is killed without resigning
+  transports[leader]!.disconnect()
+  elections[leader]!.close()
+  await sleep(80)
+
+  expect(elections[follower]!.isLeader).toBe(true)
+  expect(events).toEqual([`lead ${leader}`, `resign ${leader}`, `lead ${follower}`])
+  elections[follower]!.close()
+})
+
+test('resigning hands leadership over immediately', async () => {
+  const connect = createHub()
+  const elections = [1, 2].map(() =>
+    electLeader(connect(), 'resign', { heartbeatInterval: 10, timeout: 1000 })
+  )
+  await sleep(40)
+  const leader = elections.find(e => e.isLeader)!
+  const follower = elections.find(e => !e.isLeader)!
+
+  leader.close()
+  await sleep(30)
+  expect(leader.isLeader).toBe(false)
+  expect(follower.isLeader).toBe(true)
+  follower.close()
+})
+
+test('elections are held over the given transport', async () => {
+  const connect = createHub()
+  const elections = [1, 2].map(() =>
+    createLeaderElection('custom', { ...options, transport: connect() })
+  )
+  await sleep(50)
+
+  expect(leaders(elections)).toBe(1)
+  elections.forEach(e => e.close())
+})
+
+test('without a transport no tab is the leader', async () => {
+  const election = electLeader(undefined, 'ssr', options)
+  await sleep(30)
+  expect(election.isLeader).toBe(false)
+  election.close()
+})
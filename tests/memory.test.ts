@@ -1,6 +1,7 @@
 import { afterEach, expect, test } from 'bun:test'
 import { createMemoryStore } from '../src'
-import { getSnapshot, isRecord, testReset } from '../src/impl'
+import { getSnapshot, testReset } from '../src/container'
+import { isRecord } from '../src/impl'
 
 afterEach(() => {
   testReset()
@@ -0,0 +1,149 @@
+import { afterEach, expect, test } from 'bun:test'
+import { compareClocks, type LogicalClock, type MergeConflict } from '../src/clock'
+import { testReset } from '../src/container'
+import { KVStore, type NamespaceOptions } from '../src/kv_store'
+import { createMemoryStorageAdapter, type StorageAdapter } from '../src/storage'
+import type { SyncMessage } from '../src/transport'
+
+afterEach(() => {
+  testReset()
+})
+
+function createKVStore(options: NamespaceOptions = {}, storage?: StorageAdapter) {
+  const sent: SyncMessage[] = []
+  const kv = new KVStore({
+    inMemStorage: new Map(),
+    memoryOnly: false,
+    storage: storage ?? createMemoryStorageAdapter(),
+    transport: { post: message => sent.push(message), subscribe: () => () => {} }
+  })
+  kv.configure('ns', options)
+  return { kv, sent }
+}
+
+/** A clock relative to the last change sent by `sent`. */
+function clockOf(sent: SyncMessage[], offset: number, tab = 'other'): LogicalClock {
+  return { time: sent.at(-1)!.clock!.time + offset, tab }
+}
+
+test('clocks are ordered by time, then by tab', () => {
+  expect(compareClocks({ time: 1, tab: 'b' }, { time: 2, tab: 'a' })).toBeLessThan(0)
+  expect(compareClocks({ time: 2, tab: 'a' }, { time: 2, tab: 'b' })).toBeLessThan(0)
+  expect(compareClocks({ time: 2, tab: 'b' }, { time: 2, tab: 'b' })).toBe(0)
+})
+
+test('lww ignores changes older than the last local change', () => {
+  const storage = createMemoryStorageAdapter()
+  const { kv, sent } = createKVStore({}, storage)
+  kv.set('ns', { a: 1, b: 1 })
+  const local = sent[0]!.clock!
+
+  // the sending tab has already persisted its change
+  storage.set('ns', '{"a":1,"b":2}')
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'b', payload: '2', clock: clockOf(sent, -1) })
+  expect(kv.get('ns')).toEqual({ a: 1, b: 1 })
+  // the winning value is persisted and sent again, newer than both changes
+  expect(storage.get('ns')).toBe('{"a":1,"b":1}')
+  expect(sent.at(-1)).toMatchObject({ type: 'set', key: 'ns', path: 'b', payload: '1' })
+  expect(compareClocks(sent.at(-1)!.clock!, local)).toBeGreaterThan(0)
+
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'b', payload: '3', clock: clockOf(sent, 1) })
+  expect(kv.get('ns')).toEqual({ a: 1, b: 3 })
+})
+
+test('changes from other tabs advance the local clock', () => {
+  const { kv, sent } = createKVStore()
+  kv.set('ns', { a: 1 })
+  const remote = clockOf(sent, 60_000)
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'a', payload: '2', clock: remote })
+
+  kv.set('ns.a', 3)
+  expect(compareClocks(sent.at(-1)!.clock!, remote)).toBeGreaterThan(0)
+})
+
+test('paths merges older changes to other paths', () => {
+  const { kv, sent } = createKVStore({ merge: 'paths' })
+  kv.set('ns', { user: { name: 'a' }, theme: 'light' })
+  kv.set('ns.theme', 'dark')
+  // after the root write, before the change of `theme`
+  const between = { time: sent.at(-1)!.clock!.time, tab: '' }
+
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'theme', payload: '"blue"', clock: between })
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'user.name', payload: '"b"', clock: between })
+  expect(kv.get('ns')).toEqual({ user: { name: 'b' }, theme: 'dark' })
+
+  // overlaps the change of `theme`
+  kv.applyRemote({ type: 'set', key: 'ns', path: '', payload: '{}', clock: between })
+  expect(kv.get('ns')).toEqual({ user: { name: 'b' }, theme: 'dark' })
+})
+
+test('a custom resolver decides conflicting changes', () => {
+  const conflicts: MergeConflict[] = []
+  const storage = createMemoryStorageAdapter()
+  const { kv, sent } = createKVStore(
+    {
+      merge: conflict => {
+        conflicts.push(conflict)
+        return [...(conflict.local as string[]), ...(conflict.remote as string[])]
+      }
+    },
+    storage
+  )
+  kv.set('ns', { tags: ['a'] })
+  const remote = clockOf(sent, -1)
+
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'tags', payload: '["b"]', clock: remote })
+
+  expect(kv.get('ns')).toEqual({ tags: ['a', 'b'] })
+  // the merged value is what the storage and the other tabs get
+  expect(JSON.parse(storage.get('ns')!)).toMatchObject({ value: { tags: ['a', 'b'] } })
+  expect(sent).toHaveLength(2)
+  expect(sent[1]).toMatchObject({ type: 'set', key: 'ns', path: 'tags', payload: '["a","b"]' })
+  expect(compareClocks(sent[1]!.clock!, sent[0]!.clock!)).toBeGreaterThan(0)
+  expect(conflicts).toEqual([
+    {
+      path: 'tags',
+      local: ['a'],
+      remote: ['b'],
+      localClock: sent[0]!.clock!,
+      remoteClock: remote
+    }
+  ])
+})
+
+test('clocks are persisted with a merge strategy and checked for stored payloads', () => {
+  const storage = createMemoryStorageAdapter()
+  const { kv, sent } = createKVStore({ merge: 'lww' }, storage)
+  kv.set('ns', { a: 1 })
+
+  const stored = JSON.parse(storage.get('ns')!)
+  expect(stored.__juststore.clock).toEqual(sent[0]!.clock)
+
+  const payload = (a: number, clock: LogicalClock) =>
+    JSON.stringify({ __juststore: { clock }, value: { a } })
+  kv.applyRemote({
+    type: 'set',
+    key: 'ns',
+    path: '',
+    payload: payload(2, clockOf(sent, -1)),
+    persisted: true
+  })
+  expect(kv.get('ns')).toEqual({ a: 1 })
+
+  kv.applyRemote({
+    type: 'set',
+    key: 'ns',
+    path: '',
+    payload: payload(3, clockOf(sent, 1)),
+    persisted: true
+  })
+  expect(kv.get('ns')).toEqual({ a: 3 })
+})
+
+test('clocks are not persisted by default', () => {
+  const storage = createMemoryStorageAdapter()
+  const { kv } = createKVStore({}, storage)
+  kv.set('ns', { a: 1 })
+
+  expect(storage.get('ns')).toBe('{"a":1}')
+})
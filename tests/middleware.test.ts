@@ -0,0 +1,152 @@
+import { afterEach, expect, test } from 'bun:test'
+import { addMiddleware, createStore, type StoreWrite } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('middleware transforms, rejects and observes writes', () => {
+  const written: StoreWrite[] = []
+  const player = createStore(
+    'player',
+    { volume: 50, locked: false, name: '' },
+    {
+      middleware: [
+        {
+          beforeWrite: ({ path, next }) =>
+            path === 'volume' ? Math.min(Math.max(next as number, 0), 100) : next
+        },
+        {
+          beforeWrite: ({ path, prev, next }) =>
+            path === 'name' && player.locked.value ? prev : next,
+          afterWrite: write => written.push(write)
+        }
+      ]
+    }
+  )
+
+  player.volume.set(150)
+  player.volume.set(v => v - 200)
+  player.locked.set(true)
+  player.name.set('changed')
+
+  expect(player.volume.value).toBe(0)
+  expect(player.name.value).toBe('')
+  expect(written).toEqual([
+    { namespace: 'player', path: 'volume', prev: 50, next: 100 },
+    { namespace: 'player', path: 'volume', prev: 100, next: 0 },
+    { namespace: 'player', path: 'locked', prev: false, next: true }
+  ])
+})
+
+test('a throwing middleware rejects the write', () => {
+  const form = createStore(
+    'form',
+    { age: 0 },
+    {
+      middleware: [
+        {
+          beforeWrite: ({ next }) => {
+            if ((next as number) < 0) throw new RangeError('age must be positive')
+            return next
+          }
+        }
+      ]
+    }
+  )
+
+  expect(() => form.age.set(-1)).toThrow('age must be positive')
+  expect(form.age.value).toBe(0)
+})
+
+test('reset, rename and array mutations go through middleware', () => {
+  const paths: string[] = []
+  const board = createStore(
+    'board',
+    { columns: { todo: ['a'] as string[] } as Record<string, string[]>, title: 'Board' },
+    { middleware: [{ afterWrite: ({ path }) => paths.push(path) }] }
+  )
+
+  board.columns.todo.push('b')
+  board.title.set('Renamed')
+  board.title.reset()
+  board.columns.rename('todo', 'backlog')
+
+  expect(board.columns.value).toEqual({ backlog: ['a', 'b'] })
+  expect(board.title.value).toBe('Board')
+  expect(paths).toEqual(['columns.todo', 'title', 'title', 'columns'])
+})
+
+test('resetAll goes through middleware for the whole store', () => {
+  const writes: StoreWrite[] = []
+  let locked = false
+  const settings = createStore(
+    'settings',
+    { theme: 'light' },
+    {
+      middleware: [
+        { beforeWrite: ({ prev, next }) => (locked ? prev : next) },
+        { afterWrite: write => writes.push(write) }
+      ]
+    }
+  )
+
+  settings.theme.set('dark')
+  locked = true
+  settings.resetAll()
+  expect(settings.theme.value).toBe('dark')
+
+  locked = false
+  settings.resetAll()
+  expect(settings.theme.value).toBe('light')
+  expect(writes.at(-1)).toEqual({
+    namespace: 'settings',
+    path: '',
+    prev: { theme: 'dark' },
+    next: { theme: 'light' }
+  })
+})
+
+test('a rename rejected by middleware is not applied', () => {
+  const board = createStore(
+    'board',
+    { columns: { todo: 1 } as Record<string, number> },
+    { middleware: [{ beforeWrite: ({ prev }) => prev }] }
+  )
+
+  board.columns.rename('todo', 'backlog')
+
+  expect(board.columns.value).toEqual({ todo: 1 })
+})
+
+test('global middleware runs before the middleware of the store', () => {
+  const order: string[] = []
+  const remove = addMiddleware({
+    beforeWrite: ({ next }) => {
+      order.push('global')
+      return `${next}!`
+    }
+  })
+  const note = createStore(
+    'note',
+    { text: '' },
+    {
+      middleware: [
+        {
+          beforeWrite: ({ next }) => {
+            order.push('store')
+            return `${next}?`
+          }
+        }
+      ]
+    }
+  )
+
+  note.text.set('hi')
+  remove()
+  note.text.set('bye')
+
+  expect(order).toEqual(['global', 'store', 'store'])
+  expect(note.text.value).toBe('bye?')
+})
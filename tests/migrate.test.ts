@@ -0,0 +1,79 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createMemoryStorageAdapter, createStore, type StorageError } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('version is stored next to the payload', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore('versioned', { name: '' }, { storage, version: 2 })
+  store.name.set('abc')
+
+  expect(JSON.parse(storage.get('versioned')!)).toEqual({
+    __juststore: { version: 2 },
+    value: { name: 'abc' }
+  })
+})
+
+test('migrations run in order from the persisted version', () => {
+  const storage = createMemoryStorageAdapter({
+    profile: JSON.stringify({ name: 'Alice', age: '30' })
+  })
+  type V1 = { name: string; age: string }
+  type V2 = { displayName: string; age: string }
+
+  const store = createStore(
+    'profile',
+    { displayName: '', age: 0 },
+    {
+      storage,
+      version: 2,
+      migrate: {
+        1: state => {
+          const { name, age } = state as V1
+          return { displayName: name, age }
+        },
+        2: state => ({ ...(state as V2), age: Number((state as V2).age) })
+      }
+    }
+  )
+
+  expect(store.value('')).toEqual({ displayName: 'Alice', age: 30 })
+})
+
+test('newer persisted versions fall back to defaults and are reported', () => {
+  const storage = createMemoryStorageAdapter({
+    future: JSON.stringify({ __juststore: { version: 5 }, value: { count: 10 } })
+  })
+  const errors: StorageError[] = []
+  const store = createStore(
+    'future',
+    { count: 0 },
+    { storage, version: 1, onStorageError: error => errors.push(error) }
+  )
+
+  expect(store.count.value).toBe(0)
+  expect(errors.map(({ kind, operation }) => [kind, operation])).toEqual([['parse', 'read']])
+  expect((errors[0]!.cause as Error).message).toBe('Persisted version 5 is newer than 1')
+})
+
+test('onNewerVersion decides the value for newer persisted versions', () => {
+  const storage = createMemoryStorageAdapter({
+    rollback: JSON.stringify({ __juststore: { version: 3 }, value: { count: 10 } })
+  })
+  const store = createStore(
+    'rollback',
+    { count: 0 },
+    {
+      storage,
+      version: 2,
+      onNewerVersion: (persisted, persistedVersion) => {
+        expect(persistedVersion).toBe(3)
+        return persisted
+      }
+    }
+  )
+  expect(store.count.value).toBe(10)
+})
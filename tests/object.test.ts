@@ -1,13 +1,7 @@
 import { afterEach, expect, test } from 'bun:test'
 import { createStore } from '../src'
-import {
-  getSnapshot,
-  getStableKeys,
-  produce,
-  rename,
-  setExternalKeyOrder,
-  testReset
-} from '../src/impl'
+import { getSnapshot, produce, rename, testReset } from '../src/container'
+import { getStableKeys, setExternalKeyOrder } from '../src/impl'
 
 afterEach(() => {
   testReset()
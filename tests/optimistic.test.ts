@@ -0,0 +1,117 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createStore } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+/** A promise settled from the outside. */
+function deferred() {
+  let resolve!: () => void
+  let reject!: (error: Error) => void
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+test('writes are applied right away and kept when the update succeeds', async () => {
+  const settings = createStore('settings', { theme: 'light', user: { name: 'a' } })
+  const request = deferred()
+
+  const update = settings.optimistic(async tx => {
+    tx.set('theme', 'dark')
+    tx.set('user.name', name => name.toUpperCase())
+    await request.promise
+    return 'saved'
+  })
+
+  expect(settings.theme.value).toBe('dark')
+  expect(settings.user.name.value).toBe('A')
+  expect(settings.isPending()).toBe(true)
+  expect(settings.isPending('theme')).toBe(true)
+  expect(settings.isPending('user')).toBe(true)
+
+  request.resolve()
+  expect(await update).toBe('saved')
+  expect(settings.theme.value).toBe('dark')
+  expect(settings.isPending()).toBe(false)
+})
+
+test('writes are reverted when the update fails', async () => {
+  const settings = createStore('settings', { theme: 'light', user: { name: 'a' }, count: 0 })
+  const pending: boolean[] = []
+  settings.subscribe('theme', () => pending.push(settings.isPending('theme')))
+
+  const update = settings.optimistic(async tx => {
+    tx.set('theme', 'dark')
+    tx.set('theme', 'blue')
+    tx.set('user', { name: 'b' })
+    throw new Error('offline')
+  })
+
+  await expect(update).rejects.toThrow('offline')
+  expect(settings.theme.value).toBe('light')
+  expect(settings.user.name.value).toBe('a')
+  expect(settings.isPending()).toBe(false)
+  expect(pending).toEqual([true, true, true])
+})
+
+test('newer writes to the same paths are kept on rollback', async () => {
+  const todo = createStore('todo', { title: 'old', done: false, tags: [] as string[] })
+  const request = deferred()
+
+  const update = todo.optimistic(async tx => {
+    tx.set('title', 'optimistic')
+    tx.set('done', true)
+    await request.promise
+  })
+  todo.title.set('newer')
+  expect(todo.isPending('tags')).toBe(false)
+
+  request.reject(new Error('failed'))
+  await expect(update).rejects.toThrow('failed')
+  expect(todo.title.value).toBe('newer')
+  expect(todo.done.value).toBe(false)
+})
+
+test('writes after the update settled are rejected', async () => {
+  const store = createStore('late', { a: 0 })
+  let late!: (value: number) => void
+
+  await store.optimistic(async tx => {
+    late = value => tx.set('a', value)
+  })
+
+  expect(() => late(1)).toThrow('Optimistic update already settled')
+  expect(store.a.value).toBe(0)
+  expect(store.isPending()).toBe(false)
+})
+
+test('concurrent updates revert only their own paths', async () => {
+  const store = createStore('concurrent', { a: 0, b: 0 })
+  const first = deferred()
+  const second = deferred()
+
+  const updateA = store.optimistic(async tx => {
+    tx.set('a', 1)
+    await first.promise
+  })
+  const updateB = store.optimistic(async tx => {
+    tx.set('b', 1)
+    await second.promise
+  })
+
+  first.reject(new Error('a failed'))
+  await expect(updateA).rejects.toThrow('a failed')
+  expect(store.a.value).toBe(0)
+  expect(store.b.value).toBe(1)
+  expect(store.isPending('a')).toBe(false)
+  expect(store.isPending('b')).toBe(true)
+
+  second.resolve()
+  await updateB
+  expect(store.b.value).toBe(1)
+})
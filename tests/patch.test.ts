@@ -0,0 +1,180 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  batch,
+  createStore,
+  fromJsonPointer,
+  hydrate,
+  type JsonPatchOperation,
+  toJsonPointer
+} from '../src'
+import { receiveSyncMessage, testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('store paths map to JSON Pointers with escaping', () => {
+  expect(toJsonPointer('')).toBe('')
+  expect(toJsonPointer('files.a/b~c.0')).toBe('/files/a~1b~0c/0')
+  expect(fromJsonPointer('/files/a~1b~0c/0')).toBe('files.a/b~c.0')
+  expect(fromJsonPointer('/~01')).toBe('~1')
+  expect(() => fromJsonPointer('files')).toThrow('Invalid JSON Pointer')
+  expect(() => fromJsonPointer('/a.b')).toThrow('has a key with a dot')
+})
+
+test('writes are emitted as patches with their inverses', () => {
+  const doc = createStore('doc', { title: 'Draft', tags: ['a'] as string[] } as {
+    title: string
+    tags: string[]
+    author?: string
+  })
+  const emitted: [JsonPatchOperation[], JsonPatchOperation[]][] = []
+  const unsubscribe = doc.onPatches((patches, inversePatches) => {
+    emitted.push([patches, inversePatches])
+  })
+
+  doc.title.set('Final')
+  doc.author.set('me')
+  doc.author.reset()
+  doc.tags.push('b')
+  unsubscribe()
+  doc.title.set('Ignored')
+
+  expect(emitted).toEqual([
+    [
+      [{ op: 'replace', path: '/title', value: 'Final' }],
+      [{ op: 'replace', path: '/title', value: 'Draft' }]
+    ],
+    [[{ op: 'add', path: '/author', value: 'me' }], [{ op: 'remove', path: '/author' }]],
+    [[{ op: 'remove', path: '/author' }], [{ op: 'add', path: '/author', value: 'me' }]],
+    [
+      [{ op: 'replace', path: '/tags', value: ['a', 'b'] }],
+      [{ op: 'replace', path: '/tags', value: ['a'] }]
+    ]
+  ])
+})
+
+test('rename is emitted as a move', () => {
+  const board = createStore('board', { columns: { 'to/do': 1 } as Record<string, number> })
+  const emitted: JsonPatchOperation[][] = []
+  board.onPatches((patches, inversePatches) => {
+    emitted.push(patches, inversePatches)
+  })
+
+  board.columns.rename('to/do', 'backlog')
+
+  expect(emitted).toEqual([
+    [{ op: 'move', from: '/columns/to~1do', path: '/columns/backlog' }],
+    [{ op: 'move', from: '/columns/backlog', path: '/columns/to~1do' }]
+  ])
+})
+
+test('patches of a batch arrive together and their inverses undo them', () => {
+  const cart = createStore('cart', { items: [] as string[], total: 0 })
+  let patches: JsonPatchOperation[] = []
+  let inversePatches: JsonPatchOperation[] = []
+  let calls = 0
+  cart.onPatches((p, inverse) => {
+    calls++
+    patches = p
+    inversePatches = inverse
+  })
+
+  batch(() => {
+    cart.items.push('apple')
+    cart.total.set(3)
+  })
+
+  expect(calls).toBe(1)
+  expect(patches.map(({ path }) => path)).toEqual(['/items', '/total'])
+  expect(inversePatches.map(({ path }) => path)).toEqual(['/total', '/items'])
+
+  cart.applyPatches(inversePatches)
+  expect(cart.value('')).toEqual({ items: [], total: 0 })
+})
+
+test('applyPatches mirrors the changes of another store', () => {
+  const source = createStore('source', {
+    todos: ['a', 'b'] as string[],
+    byId: { x: 1, y: 2 } as Record<string, number>
+  })
+  const mirror = createStore('mirror', {
+    todos: ['a', 'b'] as string[],
+    byId: { x: 1, y: 2 } as Record<string, number>
+  })
+  source.onPatches(patches => mirror.applyPatches(patches))
+
+  source.todos.set(['a', 'b', 'c'])
+  source.byId.rename('x', 'z')
+  source.byId.y.set(3)
+  source.byId.y.reset()
+
+  expect(mirror.value('')).toEqual(source.value(''))
+  expect(Object.keys(mirror.byId.value)).toEqual(['z', 'y'])
+})
+
+test('resets, server values and changes from other tabs are mirrored', () => {
+  const source = createStore('counters', { a: 1, b: 1 })
+  const mirror = createStore('counters_mirror', { a: 1, b: 1 })
+  const emitted: JsonPatchOperation[][] = []
+  source.onPatches((patches, inversePatches) => {
+    emitted.push(patches, inversePatches)
+    mirror.applyPatches(patches)
+  })
+
+  source.a.set(2)
+  source.resetAll()
+  expect(mirror.value('')).toEqual({ a: 1, b: 1 })
+  expect(emitted.slice(2)).toEqual([
+    [{ op: 'replace', path: '', value: { a: 1, b: 1 } }],
+    [{ op: 'replace', path: '', value: { a: 2, b: 1 } }]
+  ])
+
+  hydrate({ counters: { b: 3 } })
+  expect(mirror.value('')).toEqual({ a: 1, b: 3 })
+
+  receiveSyncMessage({ type: 'set', key: 'counters', path: 'a', payload: '4' })
+  expect(mirror.value('')).toEqual({ a: 4, b: 3 })
+})
+
+test('applyPatches inserts into arrays, moves and copies', () => {
+  const list = createStore('list', {
+    items: ['a', 'c'] as string[],
+    meta: { first: 'a' } as Record<string, string>
+  })
+  let notified = 0
+  list.subscribe('items', () => notified++)
+
+  list.applyPatches([
+    { op: 'add', path: '/items/1', value: 'b' },
+    { op: 'add', path: '/items/-', value: 'd' },
+    { op: 'remove', path: '/items/0' },
+    { op: 'move', from: '/items/0', path: '/items/-' },
+    { op: 'copy', from: '/items/0', path: '/meta/first' },
+    { op: 'move', from: '/meta/first', path: '/meta/head' },
+    { op: 'test', path: '/meta/head', value: 'c' }
+  ])
+
+  expect(list.items.value).toEqual(['c', 'd', 'b'])
+  expect(list.meta.value).toEqual({ head: 'c' })
+  expect(notified).toBe(1)
+})
+
+test('a failing patch leaves the store unchanged', () => {
+  const list = createStore('list', { items: ['a'] as string[] })
+  let notified = 0
+  list.subscribe('items', () => notified++)
+
+  expect(() =>
+    list.applyPatches([
+      { op: 'add', path: '/items/-', value: 'b' },
+      { op: 'test', path: '/items/0', value: 'z' }
+    ])
+  ).toThrow('Test of JSON Pointer "/items/0" failed')
+  expect(() => list.applyPatches([{ op: 'add', path: '/items/5', value: 'x' }])).toThrow(
+    'out of bounds'
+  )
+
+  expect(list.items.value).toEqual(['a'])
+  expect(notified).toBe(0)
+})
@@ -0,0 +1,114 @@
+import { afterEach, expect, test } from 'bun:test'
+import { type AsyncStorageAdapter, createMemoryStorageAdapter, createStore } from '../src'
+import { testReset } from '../src/container'
+import { restoreTransient } from '../src/persistence'
+import { countingStorage } from './helpers'
+
+afterEach(() => {
+  testReset()
+})
+
+type Prefs = {
+  theme: string
+  loading: boolean
+  dialog: { open: boolean; title: string }
+}
+
+const defaults: Prefs = { theme: 'light', loading: false, dialog: { open: false, title: '' } }
+
+test('excluded paths are not persisted', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore('prefs_exclude', defaults, {
+    storage,
+    persist: { exclude: ['loading', 'dialog.open'] }
+  })
+  store.theme.set('dark')
+  store.dialog.open.set(true)
+  store.loading.set(true)
+
+  expect(store.loading.value).toBe(true)
+  expect(store.dialog.open.value).toBe(true)
+  expect(JSON.parse(storage.get('prefs_exclude')!)).toEqual({
+    theme: 'dark',
+    dialog: { title: '' }
+  })
+})
+
+test('only included paths are persisted', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore('prefs_include', defaults, {
+    storage,
+    persist: { include: ['theme', 'dialog.title'] }
+  })
+  store.theme.set('dark')
+  store.loading.set(true)
+
+  expect(JSON.parse(storage.get('prefs_include')!)).toEqual({
+    theme: 'dark',
+    dialog: { title: '' }
+  })
+})
+
+test('changes to non-persisted paths do not write to storage', () => {
+  const [storage, writes] = countingStorage()
+  const store = createStore('prefs_writes', defaults, {
+    storage,
+    persist: { exclude: ['loading'] }
+  })
+  store.theme.set('dark')
+  expect(writes()).toBe(1)
+  store.loading.set(true)
+  store.loading.set(false)
+  expect(writes()).toBe(1)
+})
+
+test('changes to non-persisted paths during hydration keep the persisted values', async () => {
+  const [items, writes] = countingStorage()
+  items.set('prefs_hydrating', JSON.stringify({ theme: 'dark', dialog: { title: '' } }))
+  const storage: AsyncStorageAdapter = {
+    async: true,
+    get: async key => items.get(key),
+    set: async (key, value) => items.set(key, value),
+    delete: async key => items.delete(key),
+    list: async () => items.list()
+  }
+  const store = createStore('prefs_hydrating', defaults, {
+    storage,
+    persist: { exclude: ['loading'] }
+  })
+
+  store.loading.set(true)
+  await store.onHydrated
+
+  expect(store.theme.value).toBe('dark')
+  expect(store.loading.value).toBe(true)
+  expect(writes()).toBe(1)
+})
+
+test('non-persisted paths reset to defaults on reload', () => {
+  const storage = createMemoryStorageAdapter({
+    prefs_reload: JSON.stringify({ theme: 'dark', loading: true })
+  })
+  const store = createStore('prefs_reload', defaults, {
+    storage,
+    persist: { exclude: ['loading'] }
+  })
+  expect(store.theme.value).toBe('dark')
+  expect(store.loading.value).toBe(false)
+})
+
+test('values from other tabs keep local non-persisted paths', () => {
+  const local = { theme: 'light', loading: true, dialog: { open: true, title: 'a' } }
+  const incoming = { theme: 'dark', dialog: { title: 'b' } }
+
+  expect(restoreTransient(local, incoming, { exclude: ['loading', 'dialog.open'] })).toEqual({
+    theme: 'dark',
+    loading: true,
+    dialog: { open: true, title: 'b' }
+  })
+  expect(restoreTransient(local, incoming, { include: ['theme'] })).toEqual({
+    theme: 'dark',
+    loading: true,
+    dialog: { open: true, title: 'a' }
+  })
+})
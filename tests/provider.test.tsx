@@ -0,0 +1,62 @@
+import { afterEach, expect, test } from 'bun:test'
+import { renderToString } from 'react-dom/server'
+import {
+  createAtom,
+  createStore,
+  createStoreContainer,
+  RenderWithUpdate,
+  runWithStoreContainer,
+  StoreProvider
+} from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('stores and atoms without a container are scoped to the closest provider', () => {
+  // created as in the browser
+  const globals = globalThis as { window?: unknown }
+  globals.window = globalThis
+  const counter = createStore('counter', { count: 0 }, { memoryOnly: true })
+  const open = createAtom('open', false)
+  delete globals.window
+  const first = createStoreContainer()
+  const second = createStoreContainer()
+  const setCounts: ((count: number) => void)[] = []
+  const setOpens: ((open: boolean) => void)[] = []
+
+  function Counter() {
+    const [count, setCount] = counter.count.useState()
+    setCounts.push(setCount)
+    return (
+      <RenderWithUpdate state={open}>
+        {(value, setValue) => {
+          setOpens.push(setValue)
+          return <span>{`${count} ${value}`}</span>
+        }}
+      </RenderWithUpdate>
+    )
+  }
+  const render = () =>
+    renderToString(
+      <>
+        <StoreProvider container={first}>
+          <Counter />
+        </StoreProvider>
+        <StoreProvider container={second}>
+          <Counter />
+        </StoreProvider>
+      </>
+    )
+
+  expect(render()).toBe('<span>0 false</span><span>0 false</span>')
+
+  setCounts[0]!(1)
+  setOpens[0]!(true)
+  runWithStoreContainer(second, () => counter.count.set(2))
+
+  expect(render()).toBe('<span>1 true</span><span>2 false</span>')
+  expect(counter.count.value).toBe(0)
+  expect(open.value).toBe(false)
+})
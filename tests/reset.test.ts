@@ -0,0 +1,139 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  clearAll,
+  createAtom,
+  createMemoryStorageAdapter,
+  createStore,
+  createStoreContainer
+} from '../src'
+import { containerOf, receiveSyncMessage, testReset } from '../src/container'
+import { createForm } from '../src/form'
+import { KVStore } from '../src/kv_store'
+import { recordingTransport } from './helpers'
+
+afterEach(() => {
+  testReset()
+})
+
+test('resetAll restores the defaults, removes the store from storage and notifies', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore(
+    'session',
+    { user: { name: 'Guest' }, cart: [] as string[] },
+    { storage }
+  )
+  store.user.name.set('Alice')
+  store.cart.push('apple')
+  const names: string[] = []
+  store.subscribe('user.name', name => names.push(name))
+
+  store.resetAll()
+
+  expect(store.value('user.name')).toBe('Guest')
+  expect(store.cart.value).toEqual([])
+  expect(storage.get('session')).toBeUndefined()
+  expect(names).toEqual(['Guest'])
+})
+
+test('a reset is sent to other tabs with a clock', () => {
+  const transport = recordingTransport()
+  const kv = new KVStore({
+    inMemStorage: new Map(),
+    memoryOnly: false,
+    storage: createMemoryStorageAdapter(),
+    transport
+  })
+  kv.set('ns', { a: 1 })
+  kv.clear('ns')
+  kv.configure('local', { sync: false })
+  kv.clear('local')
+
+  expect(transport.sent.map(({ type, key }) => ({ type, key }))).toEqual([
+    { type: 'set', key: 'ns' },
+    { type: 'reset', key: 'ns' }
+  ])
+  expect(transport.clocks[1]).toEqual({ time: expect.any(Number), tab: expect.any(String) })
+})
+
+test('resets from other tabs restore the defaults and notify', () => {
+  const store = createStore('remote', { count: 0 }, { storage: createMemoryStorageAdapter() })
+  store.count.set(5)
+  const counts: number[] = []
+  store.subscribe('count', count => counts.push(count))
+
+  receiveSyncMessage({ type: 'reset', key: 'remote' })
+
+  expect(store.count.value).toBe(0)
+  expect(counts).toEqual([0])
+})
+
+test('resets older than a local change are ignored', () => {
+  const kv = new KVStore({ inMemStorage: new Map(), memoryOnly: true })
+  kv.set('ns', { a: 1 })
+
+  kv.applyRemote({ type: 'reset', key: 'ns', clock: { time: 1, tab: 'other' } })
+  expect(kv.get('ns')).toEqual({ a: 1 })
+
+  const reset = { time: Date.now() + 60_000, tab: 'other' }
+  kv.applyRemote({ type: 'reset', key: 'ns', clock: reset })
+  expect(kv.get('ns')).toBeUndefined()
+
+  // changes made before the reset arrive late
+  kv.applyRemote({
+    type: 'set',
+    key: 'ns',
+    path: '',
+    payload: '{"a":2}',
+    clock: { time: reset.time - 1, tab: 'other' }
+  })
+  expect(kv.get('ns')).toBeUndefined()
+})
+
+test('clearAll resets every store and atom and wipes their storage', () => {
+  const storage = createMemoryStorageAdapter({ 'from-another-page': '{"a":1}' })
+  const prefs = createStore('prefs', { theme: 'light' }, { storage })
+  const draft = createStore('draft', { text: '' }, { memoryOnly: true })
+  const token = createAtom('token', '', true)
+  prefs.theme.set('dark')
+  draft.text.set('hello')
+  token.set('secret')
+  const themes: string[] = []
+  prefs.subscribe('theme', theme => themes.push(theme))
+
+  clearAll()
+
+  expect(prefs.theme.value).toBe('light')
+  expect(draft.text.value).toBe('')
+  expect(token.value).toBe('')
+  expect(themes).toEqual(['light'])
+  expect(storage.list()).toEqual([])
+})
+
+test('clearAll resets mounted forms without touching storage for their errors', () => {
+  const storage = createMemoryStorageAdapter()
+  const deleted: string[] = []
+  const transport = recordingTransport()
+  const container = createStoreContainer({
+    storage: {
+      ...storage,
+      delete: key => {
+        deleted.push(key)
+        storage.delete(key)
+      }
+    },
+    transport
+  })
+  const [form, unsubscribeFns] = createForm('signup', { email: '' }, {}, container)
+  form.email.set('a@b.c')
+  form.email.setError('Taken')
+
+  container.clearAll()
+
+  expect(form.email.value).toBe('')
+  expect(form.email.error).toBeUndefined()
+  // the form and its errors, without a key for the errors of the form alone
+  expect(containerOf(container).debug.getStoreSize()).toBe(2)
+  expect(deleted).toEqual([])
+  expect(transport.sent).toEqual([{ type: 'reset', key: '*' }])
+  unsubscribeFns.forEach(unsubscribe => unsubscribe())
+})
@@ -0,0 +1,61 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createMemoryStorageAdapter, createStore, taggedJSONSerializer } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('taggedJSONSerializer round-trips special values', () => {
+  const value = {
+    date: new Date('2024-01-02T03:04:05.000Z'),
+    map: new Map<string, unknown>([
+      ['a', 1],
+      ['b', new Set([1n, 2n])]
+    ]),
+    set: new Set(['x', 'y']),
+    big: 12345678901234567890n,
+    regex: /ab+c/gi,
+    list: [1, undefined, 3],
+    nested: { when: [new Date(0)] }
+  }
+
+  const parsed = taggedJSONSerializer.parse(taggedJSONSerializer.stringify(value)) as typeof value
+
+  expect(parsed.date).toBeInstanceOf(Date)
+  expect(parsed.date.getTime()).toBe(value.date.getTime())
+  expect(parsed.map).toBeInstanceOf(Map)
+  expect(parsed.map.get('a')).toBe(1)
+  expect(parsed.map.get('b')).toEqual(new Set([1n, 2n]))
+  expect(parsed.set).toEqual(new Set(['x', 'y']))
+  expect(parsed.big).toBe(12345678901234567890n)
+  expect(parsed.regex.source).toBe('ab+c')
+  expect(parsed.regex.flags).toBe('gi')
+  expect(parsed.list).toEqual([1, undefined, 3])
+  expect(1 in parsed.list).toBe(true)
+  expect(parsed.nested.when[0]!.getTime()).toBe(0)
+})
+
+test('taggedJSONSerializer keeps plain JSON readable', () => {
+  expect(taggedJSONSerializer.parse('{"a":[1,null,"b"]}')).toEqual({ a: [1, null, 'b'] })
+})
+
+test('createStore persists with the given serializer', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore(
+    'serialized',
+    { seenAt: new Date(0), ids: new Set<number>() },
+    { storage, serializer: taggedJSONSerializer }
+  )
+  store.seenAt.set(new Date(1000))
+  store.ids.set(new Set([1, 2]))
+
+  const reloaded = createMemoryStorageAdapter({ serialized_reload: storage.get('serialized')! })
+  const restored = createStore(
+    'serialized_reload',
+    { seenAt: new Date(0), ids: new Set<number>() },
+    { storage: reloaded, serializer: taggedJSONSerializer }
+  )
+  expect(restored.seenAt.value).toEqual(new Date(1000))
+  expect(restored.ids.value).toEqual(new Set([1, 2]))
+})
@@ -0,0 +1,133 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  createAtom,
+  createMemoryStorageAdapter,
+  createStore,
+  createStoreContainer,
+  dehydrate,
+  hydrate,
+  runWithStoreContainer
+} from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('dehydrate includes the namespaces that differ from their default', () => {
+  const container = createStoreContainer()
+  const user = createStore('user', { name: '' }, { container })
+  createStore('settings', { theme: 'light' }, { container })
+  const open = createAtom('menu', false, false, container)
+
+  user.name.set('Ada')
+  open.set(true)
+
+  expect(JSON.parse(dehydrate({ container }))).toEqual({
+    user: { name: 'Ada' },
+    'atom:menu': true
+  })
+  expect(JSON.parse(dehydrate({ container, namespaces: ['settings'] }))).toEqual({
+    settings: { theme: 'light' }
+  })
+})
+
+test('dehydrate escapes characters that end a script element', () => {
+  const container = createStoreContainer()
+  const page = createStore('page', { html: '' }, { container })
+  page.html.set('</script><script>alert(1)</script>\u2028')
+
+  const payload = dehydrate({ container })
+
+  expect(payload).not.toContain('</script>')
+  expect(payload).not.toContain('\u2028')
+  expect(JSON.parse(payload)).toEqual({
+    page: { html: '</script><script>alert(1)</script>\u2028' }
+  })
+})
+
+test('hydrate seeds stores created afterwards', () => {
+  const server = createStoreContainer()
+  createStore('user', { name: '', age: 0 }, { container: server }).name.set('Ada')
+  createAtom('menu', false, false, server).set(true)
+  const payload = dehydrate({ container: server })
+
+  const client = createStoreContainer()
+  hydrate(payload, { container: client })
+  const user = createStore('user', { name: '', age: 0 }, { container: client })
+  const open = createAtom('menu', false, false, client)
+
+  expect(user.name.value).toBe('Ada')
+  expect(user.age.value).toBe(0)
+  expect(open.value).toBe(true)
+})
+
+test('hydrate updates existing stores and notifies subscribers', () => {
+  const container = createStoreContainer()
+  const user = createStore('user', { name: '' }, { container })
+  const open = createAtom('menu', false, false, container)
+  const names: string[] = []
+  const states: boolean[] = []
+  user.subscribe('name', name => names.push(name))
+  open.subscribe(value => states.push(value))
+
+  hydrate(JSON.stringify({ user: { name: 'Ada' }, 'atom:menu': true }), { container })
+
+  expect(user.name.value).toBe('Ada')
+  expect(open.value).toBe(true)
+  expect(names).toEqual(['Ada'])
+  expect(states).toEqual([true])
+})
+
+test('server values take precedence over persisted values and defaults', () => {
+  const storage = createMemoryStorageAdapter()
+  const defaults = { theme: 'system', lang: 'en', compact: false }
+  const saved = createStore('prefs', defaults, { container: createStoreContainer({ storage }) })
+  saved.theme.set('dark')
+  saved.lang.set('fr')
+
+  const container = createStoreContainer({ storage })
+  hydrate(JSON.stringify({ prefs: { theme: 'light' } }), { container })
+  const prefs = createStore('prefs', defaults, { container })
+
+  expect(prefs.theme.value).toBe('light')
+  expect(prefs.lang.value).toBe('fr')
+  expect(prefs.compact.value).toBe(false)
+})
+
+test('hydration is scoped to a container', () => {
+  const container = createStoreContainer()
+  hydrate(JSON.stringify({ user: { name: 'Ada' } }), { container })
+
+  const scoped = createStore('user', { name: '' }, { container })
+  const global = createStore('user', { name: '' })
+
+  expect(scoped.name.value).toBe('Ada')
+  expect(global.name.value).toBe('')
+})
+
+test('stores and atoms without a container use the container of the request', async () => {
+  const user = createStore('user', { name: '' })
+  const open = createAtom('menu', false)
+  const first = createStoreContainer()
+  const second = createStoreContainer()
+
+  const handle = (container: typeof first, name: string) =>
+    runWithStoreContainer(container, async () => {
+      user.name.set(name)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      open.set(name === 'Ada')
+      return [user.name.value, open.value]
+    })
+
+  expect(await Promise.all([handle(first, 'Ada'), handle(second, 'Bob')])).toEqual([
+    ['Ada', true],
+    ['Bob', false]
+  ])
+  expect(JSON.parse(dehydrate({ container: first }))).toEqual({
+    user: { name: 'Ada' },
+    'atom:menu': true
+  })
+  expect(user.name.value).toBe('')
+  expect(open.value).toBe(false)
+})
@@ -0,0 +1,50 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createLocalStorageAdapter, createMemoryStorageAdapter, createStore } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+test('createStore persists to the given storage adapter', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore('adapter', { theme: 'light' }, { storage })
+
+  store.theme.set('dark')
+  expect(JSON.parse(storage.get('adapter')!)).toEqual({ theme: 'dark' })
+  expect(storage.list()).toEqual(['adapter'])
+})
+
+test('createStore restores from the given storage adapter', () => {
+  const storage = createMemoryStorageAdapter({
+    restored: JSON.stringify({ theme: 'dark' })
+  })
+  const store = createStore('restored', { theme: 'light', fontSize: 14 }, { storage })
+
+  expect(store.theme.value).toBe('dark')
+  expect(store.fontSize.value).toBe(14)
+})
+
+test('memoryOnly stores never touch the storage adapter', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore('memory_only', { theme: 'light' }, { storage, memoryOnly: true })
+
+  store.theme.set('dark')
+  expect(storage.list()).toEqual([])
+})
+
+test('the localStorage adapter ignores a localStorage defined by a server runtime', () => {
+  const items = createMemoryStorageAdapter()
+  Object.assign(globalThis, {
+    localStorage: { getItem: items.get, setItem: items.set, removeItem: items.delete }
+  })
+  try {
+    const storage = createLocalStorageAdapter()
+    storage.set('server', '{}')
+
+    expect(storage.get('server')).toBeUndefined()
+    expect(items.list()).toEqual([])
+  } finally {
+    delete (globalThis as { localStorage?: unknown }).localStorage
+  }
+})
@@ -0,0 +1,110 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+  createMemoryStorageAdapter,
+  createStore,
+  type StorageAdapter,
+  type StorageError
+} from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+/** A memory adapter holding at most `capacity` characters. */
+function limitedStorage(capacity: number, initial?: Record<string, string>): StorageAdapter {
+  const storage = createMemoryStorageAdapter(initial)
+  const used = (except: string) =>
+    storage
+      .list()
+      .filter(key => key !== except)
+      .reduce((sum, key) => sum + storage.get(key)!.length, 0)
+  return {
+    ...storage,
+    set: (key, value) => {
+      if (used(key) + value.length > capacity) {
+        throw new DOMException('full', 'QuotaExceededError')
+      }
+      storage.set(key, value)
+    }
+  }
+}
+
+test('quota errors are reported to onStorageError', () => {
+  const errors: StorageError[] = []
+  const store = createStore(
+    'quota',
+    { text: '' },
+    { storage: limitedStorage(20), onStorageError: e => errors.push(e) }
+  )
+  store.text.set('x'.repeat(50))
+
+  expect(store.text.value).toBe('x'.repeat(50))
+  expect(errors).toHaveLength(1)
+  expect(errors[0]!.kind).toBe('quota')
+  expect(errors[0]!.namespace).toBe('quota')
+  expect(errors[0]!.operation).toBe('write')
+})
+
+test('serialization errors are reported to onStorageError', () => {
+  const errors: StorageError[] = []
+  const store = createStore(
+    'bigint',
+    { id: 0n },
+    { storage: createMemoryStorageAdapter(), onStorageError: e => errors.push(e) }
+  )
+  store.id.set(1n)
+  expect(errors.map(e => e.kind)).toEqual(['serialization'])
+})
+
+test('corrupt payloads are reported and fall back to defaults', () => {
+  const errors: StorageError[] = []
+  const store = createStore(
+    'corrupt',
+    { count: 1 },
+    {
+      storage: createMemoryStorageAdapter({ corrupt: '{"count":' }),
+      onStorageError: e => errors.push(e)
+    }
+  )
+  expect(store.count.value).toBe(1)
+  expect(errors.map(e => [e.kind, e.operation])).toEqual([['parse', 'read']])
+})
+
+test('inaccessible storage is reported as unavailable', () => {
+  const errors: StorageError[] = []
+  const storage: StorageAdapter = {
+    ...createMemoryStorageAdapter(),
+    get: () => {
+      throw new DOMException('denied', 'SecurityError')
+    }
+  }
+  createStore('blocked', { count: 1 }, { storage, onStorageError: e => errors.push(e) })
+  expect(errors.map(e => e.kind)).toEqual(['unavailable'])
+})
+
+test('evictable namespaces are dropped to make room', () => {
+  const storage = limitedStorage(40)
+  const cache = createStore('cache', { rows: '' }, { storage, evictable: true })
+  const prefs = createStore('prefs', { theme: '' }, { storage, eviction: 'evictable' })
+
+  cache.rows.set('x'.repeat(20))
+  prefs.theme.set('dark')
+
+  expect(storage.list()).toEqual(['prefs'])
+  expect(cache.rows.value).toBe('x'.repeat(20))
+})
+
+test('lru eviction drops the least recently written namespace first', () => {
+  const storage = limitedStorage(50)
+  const a = createStore('lru_a', { v: '' }, { storage })
+  const b = createStore('lru_b', { v: '' }, { storage })
+  const c = createStore('lru_c', { v: '' }, { storage, eviction: 'lru' })
+
+  a.v.set('aaaaaaaaaa')
+  b.v.set('bbbbbbbbbb')
+  a.v.set('aaaaaaaaab')
+  c.v.set('cccccccccc')
+
+  expect(storage.list().toSorted()).toEqual(['lru_a', 'lru_c'])
+})
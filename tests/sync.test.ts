@@ -0,0 +1,101 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createStore } from '../src'
+import { receiveSyncMessage, testReset } from '../src/container'
+import { KVStore } from '../src/kv_store'
+import { createMemoryStorageAdapter } from '../src/storage'
+import { recordingTransport } from './helpers'
+
+afterEach(() => {
+  testReset()
+})
+
+function createKVStore(memoryOnly = false) {
+  const transport = recordingTransport()
+  const kv = new KVStore({
+    inMemStorage: new Map(),
+    memoryOnly,
+    storage: createMemoryStorageAdapter(),
+    transport
+  })
+  return { kv, sent: transport.sent }
+}
+
+test('only the changed path is sent to other tabs', () => {
+  const { kv, sent } = createKVStore()
+  kv.set('ns', { user: { name: 'a', age: 1 }, rows: [1, 2, 3] })
+  kv.set('ns.user.name', 'b')
+  kv.delete('ns.user.age')
+  kv.delete('ns')
+
+  expect(sent).toEqual([
+    { type: 'set', key: 'ns', path: '', payload: '{"user":{"name":"a","age":1},"rows":[1,2,3]}' },
+    { type: 'set', key: 'ns', path: 'user.name', payload: '"b"' },
+    { type: 'delete', key: 'ns', path: 'user.age' },
+    { type: 'delete', key: 'ns', path: '' }
+  ])
+})
+
+test('paths that are not persisted are not sent', () => {
+  const { kv, sent } = createKVStore()
+  kv.configure('ns', { persist: { exclude: ['dialog.open'] } })
+  kv.set('ns', { theme: 'light', dialog: { open: false, title: 'x' } })
+  sent.length = 0
+
+  kv.set('ns.dialog.open', true)
+  kv.set('ns.dialog', { open: false, title: 'y' })
+
+  expect(sent).toEqual([{ type: 'set', key: 'ns', path: 'dialog', payload: '{"title":"y"}' }])
+})
+
+test('namespaces with sync: false are not sent', () => {
+  const { kv, sent } = createKVStore()
+  kv.configure('ns', { sync: false })
+  kv.set('ns', { a: 1 })
+
+  expect(sent).toEqual([])
+})
+
+test('memory-only namespaces are only sent with sync: tabs', () => {
+  const { kv, sent } = createKVStore(true)
+  kv.configure('shared', { sync: 'tabs' })
+  kv.set('local', { a: 1 })
+  kv.set('shared', { a: 1 })
+  kv.set('shared.a', 2)
+
+  expect(sent).toEqual([
+    { type: 'set', key: 'shared', path: '', payload: '{"a":1}' },
+    { type: 'set', key: 'shared', path: 'a', payload: '2' }
+  ])
+})
+
+test('path changes from other tabs keep local transient paths', () => {
+  const { kv } = createKVStore()
+  kv.configure('ns', { persist: { exclude: ['dialog.open'] } })
+  kv.set('ns', { theme: 'light', dialog: { open: true, title: 'x' } })
+
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'dialog', payload: '{"title":"y"}' })
+  kv.applyRemote({ type: 'set', key: 'ns', path: 'theme', payload: '"dark"' })
+
+  expect(kv.get('ns')).toEqual({ theme: 'dark', dialog: { open: true, title: 'y' } })
+
+  kv.applyRemote({ type: 'delete', key: 'ns', path: 'theme' })
+  expect(kv.get('ns')).toEqual({ dialog: { open: true, title: 'y' } })
+})
+
+test('memory-only stores receive changes from other tabs', () => {
+  const store = createStore(
+    'presence',
+    { online: [] as string[] },
+    {
+      memoryOnly: true,
+      sync: 'tabs'
+    }
+  )
+  const received: string[][] = []
+  store.subscribe('online', online => received.push(online))
+
+  receiveSyncMessage({ type: 'set', key: 'presence', path: 'online', payload: '["tab-2"]' }, true)
+
+  expect(store.online.value).toEqual(['tab-2'])
+  expect(received).toEqual([['tab-2']])
+})
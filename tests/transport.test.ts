@@ -0,0 +1,116 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createMemoryStorageAdapter, createStore } from '../src'
+import { receiveSyncMessage, testReset } from '../src/container'
+import {
+  createBroadcastChannelTransport,
+  createStorageEventTransport,
+  type SyncMessage
+} from '../src/transport'
+
+afterEach(() => {
+  testReset()
+})
+
+function storageEvent(key: string | null, newValue: string | null) {
+  return Object.assign(new Event('storage'), { key, newValue })
+}
+
+test('broadcast channel transport delivers messages per namespace', async () => {
+  const sender = createBroadcastChannelTransport('transport-test')
+  const receiver = createBroadcastChannelTransport('transport-test')
+  const received: SyncMessage[] = []
+  const unsubscribe = receiver.subscribe('ns', message => received.push(message))
+
+  sender.post({ type: 'set', key: 'ns', path: 'a', payload: '1' })
+  sender.post({ type: 'set', key: 'other', path: '', payload: '{}' })
+  await new Promise(resolve => setTimeout(resolve, 20))
+  unsubscribe()
+
+  expect(received).toEqual([{ type: 'set', key: 'ns', path: 'a', payload: '1' }])
+})
+
+test('storage event transport reads changed prefixed keys and resets removed ones', () => {
+  const target = new EventTarget()
+  const globals = globalThis as { window?: unknown }
+  globals.window = target
+  try {
+    const received: SyncMessage[] = []
+    const unsubscribe = createStorageEventTransport().subscribe('prefs', message =>
+      received.push(message)
+    )
+
+    target.dispatchEvent(storageEvent('juststore:prefs', '{"theme":"dark"}'))
+    target.dispatchEvent(storageEvent('juststore:prefs', null))
+    target.dispatchEvent(storageEvent('juststore:other', '{}'))
+    target.dispatchEvent(storageEvent('other-app', '{}'))
+    target.dispatchEvent(storageEvent(null, null))
+    unsubscribe()
+    target.dispatchEvent(storageEvent('juststore:prefs', '{}'))
+
+    expect(received).toEqual([
+      { type: 'set', key: 'prefs', path: '', payload: '{"theme":"dark"}', persisted: true },
+      { type: 'reset', key: 'prefs' }
+    ])
+  } finally {
+    delete globals.window
+  }
+})
+
+test('storage event transport ignores malformed relayed messages', () => {
+  const target = new EventTarget()
+  const globals = globalThis as { window?: unknown }
+  globals.window = target
+  try {
+    const received: unknown[] = []
+    const unsubscribe = createStorageEventTransport().subscribe('prefs', message =>
+      received.push(message)
+    )
+
+    target.dispatchEvent(storageEvent('juststore:__message:prefs', '{'))
+    target.dispatchEvent(
+      storageEvent('juststore:__message:prefs', '{"type":"reset","key":"prefs"}')
+    )
+    unsubscribe()
+
+    expect(received).toEqual([{ type: 'reset', key: 'prefs' }])
+  } finally {
+    delete globals.window
+  }
+})
+
+test('stored payloads from the storage event notify subscribers', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore(
+    'synced',
+    { theme: 'light', loading: false },
+    { storage, version: 2, compression: true, persist: { exclude: ['loading'] } }
+  )
+  store.loading.set(true)
+  const themes: string[] = []
+  store.subscribe('theme', theme => themes.push(theme))
+
+  const payload = JSON.stringify({ __juststore: { version: 2 }, value: { theme: 'dark' } })
+  receiveSyncMessage({ type: 'set', key: 'synced', path: '', payload, persisted: true })
+
+  expect(themes).toEqual(['dark'])
+  expect(store.theme.value).toBe('dark')
+  expect(store.loading.value).toBe(true)
+})
+
+test('broadcast payloads and stored payloads update subscribers alike', () => {
+  const store = createStore('alike', { count: 0 }, { storage: createMemoryStorageAdapter() })
+  const counts: (number | undefined)[] = []
+  store.subscribe('count', count => counts.push(count))
+
+  receiveSyncMessage({ type: 'set', key: 'alike', path: '', payload: '{"count":1}' })
+  receiveSyncMessage({
+    type: 'set',
+    key: 'alike',
+    path: '',
+    payload: '{"count":2}',
+    persisted: true
+  })
+  receiveSyncMessage({ type: 'delete', key: 'alike', path: '' })
+
+  expect(counts).toEqual([1, 2, undefined])
+})
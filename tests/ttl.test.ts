@@ -0,0 +1,77 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createMemoryStorageAdapter, createStore } from '../src'
+import { testReset } from '../src/container'
+
+afterEach(() => {
+  testReset()
+})
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function envelope(value: unknown, meta: Record<string, unknown>) {
+  return JSON.stringify({ __juststore: meta, value })
+}
+
+test('an expired namespace falls back to defaults on load', () => {
+  const storage = createMemoryStorageAdapter({
+    expired: envelope({ token: 'old' }, { expiresAt: Date.now() - 1000 })
+  })
+  const store = createStore('expired', { token: '' }, { storage, ttl: { namespace: 60_000 } })
+
+  expect(store.token.value).toBe('')
+})
+
+test('expired paths are dropped on load', () => {
+  const storage = createMemoryStorageAdapter({
+    paths: envelope({ token: 'old', name: 'kept' }, { pathExpiresAt: { token: Date.now() - 1000 } })
+  })
+  const store = createStore(
+    'paths',
+    { token: '', name: '' },
+    { storage, ttl: { paths: { token: 60_000 } } }
+  )
+
+  expect(store.token.value).toBe('')
+  expect(store.name.value).toBe('kept')
+})
+
+test('expiry timestamps are persisted and restarted on change', () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore(
+    'meta',
+    { token: '', name: '' },
+    { storage, ttl: { namespace: 60_000, paths: { token: 1000 } } }
+  )
+  const before = Date.now()
+  store.token.set('abc')
+
+  const persisted = JSON.parse(storage.get('meta')!)
+  expect(persisted.value).toEqual({ token: 'abc', name: '' })
+  expect(persisted.__juststore.expiresAt).toBeGreaterThanOrEqual(before + 60_000)
+  expect(persisted.__juststore.pathExpiresAt.token).toBeGreaterThanOrEqual(before + 1000)
+
+  const tokenExpiresAt = persisted.__juststore.pathExpiresAt.token
+  store.name.set('changed')
+  expect(JSON.parse(storage.get('meta')!).__juststore.pathExpiresAt.token).toBe(tokenExpiresAt)
+})
+
+test('paths expiring at runtime are reset and notify listeners', async () => {
+  const storage = createMemoryStorageAdapter()
+  const store = createStore(
+    'runtime',
+    { token: '', name: '' },
+    { storage, ttl: { paths: { token: 20 } } }
+  )
+  const values: string[] = []
+  const unsubscribe = store.subscribe('token', value => values.push(value))
+  store.token.set('abc')
+  store.name.set('kept')
+
+  await sleep(50)
+  unsubscribe()
+
+  expect(store.token.value).toBe('')
+  expect(store.name.value).toBe('kept')
+  expect(values).toEqual(['abc', ''])
+  expect(JSON.parse(storage.get('runtime')!).value.token).toBe('')
+})
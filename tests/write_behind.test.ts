@@ -0,0 +1,58 @@
+import { afterEach, expect, test } from 'bun:test'
+import { createStore } from '../src'
+import { testReset } from '../src/container'
+import { countingStorage } from './helpers'
+
+afterEach(() => {
+  testReset()
+})
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+test('debounced writes are coalesced', async () => {
+  const [storage, writes] = countingStorage()
+  const store = createStore(
+    'debounced',
+    { text: '' },
+    { storage, writeBehind: { strategy: 'debounce', delay: 20 } }
+  )
+
+  for (const text of ['a', 'ab', 'abc']) {
+    store.text.set(text)
+    // memory updates synchronously
+    expect(store.text.value).toBe(text)
+  }
+  expect(writes()).toBe(0)
+
+  await sleep(40)
+  expect(writes()).toBe(1)
+  expect(JSON.parse(storage.get('debounced')!)).toEqual({ text: 'abc' })
+})
+
+test('idle writes are coalesced', async () => {
+  const [storage, writes] = countingStorage()
+  const store = createStore('idle', { count: 0 }, { storage, writeBehind: { strategy: 'idle' } })
+
+  store.count.set(1)
+  store.count.set(2)
+  await sleep(10)
+  expect(writes()).toBe(1)
+  expect(JSON.parse(storage.get('idle')!)).toEqual({ count: 2 })
+})
+
+test('flush writes pending changes immediately', () => {
+  const [storage, writes] = countingStorage()
+  const store = createStore(
+    'flushed',
+    { text: '' },
+    { storage, writeBehind: { strategy: 'debounce', delay: 1000 } }
+  )
+
+  store.text.set('abc')
+  store.flush()
+  expect(writes()).toBe(1)
+  expect(JSON.parse(storage.get('flushed')!)).toEqual({ text: 'abc' })
+
+  store.flush()
+  expect(writes()).toBe(1)
+})